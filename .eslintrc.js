@@ -21,7 +21,8 @@ module.exports = {
     ecmaVersion: 2020,
     sourceType: "module",
     project: [
-      "tsconfig.json"
+      "tsconfig.json",
+      "test/tsconfig.json"
     ]
   },
   ignorePatterns: [
@@ -0,0 +1,147 @@
+/**
+ * Backtest the floor and ceiling and Mento policies, see README "Backtesting"
+ *
+ *    npm run backtest -- [scenario.json] [options]
+ */
+import {
+  createSyntheticScenario,
+  IBacktestPolicy,
+  IBacktestScenario,
+  IBacktestState,
+  runBacktest,
+} from "./helpers/backtest-helper";
+import { numberFlag, parseArgs, printRows, runCli, stringFlag } from "./helpers/cli-helper";
+import { getDefaultConfig, NetworkName } from "./helpers/config-helper";
+import { BPS } from "./helpers/policy-helper";
+
+import fs from "fs";
+
+const USAGE = `usage: npm run backtest -- [scenario.json] [options]
+
+Without a scenario file, runs a synthetic scenario of random market trades.
+
+scenario:
+  --steps <n>                  synthetic: how many trades, default 500
+  --volatility <x>             synthetic: standard deviation of a trade, as a fraction of the pool cUSD, default 0.02
+  --drift <x>                  synthetic: mean of a trade, as a fraction of the pool cUSD, default 0
+  --seed <n>                   synthetic: default 1
+
+policy, defaulting to the configuration of the network:
+  --network <network>          default celo
+  --damping <x>                swapDamping
+  --slippage <x>               swapSlippage
+  --ceiling-multiplier <x>     such as 3.5, default 3.5
+  --mento-band <x>             mentoToleranceBand
+  --mento-max-per-run <n>      mentoMaxTransferPerRun, kCUR
+  --mento-max-per-day <n>      mentoMaxTransferPerDay, kCUR, only applied to steps with a timestamp
+  --no-mento                   leave out the Mento rebalancing
+  --no-floor-ceiling           leave out the floor and ceiling swaps
+
+output:
+  --trajectory                 print every step
+  --json                       output the whole result as JSON`;
+
+/**
+ * a market where kCUR is at $1, within a floor of $0.50 and a ceiling of $1.75
+ */
+const DEFAULT_INITIAL_STATE: IBacktestState = {
+  pool: { kCurBalance: 100000, cUsdBalance: 100000, kCurWeight: 0.5, cUsdWeight: 0.5, swapFee: 0.003 },
+  reserveValue: 500000,
+  kCurSupply: 1000000,
+  cUsdPrice: 1,
+  kCurMentoBalance: 55866,
+  kGTotalSupply: 100000,
+  relayerKCurBalance: 100000,
+  relayerCUsdBalance: 100000,
+};
+
+const loadScenario = (path: string): IBacktestScenario => {
+  const scenario = JSON.parse(fs.readFileSync(path, "utf8")) as Partial<IBacktestScenario>;
+  if (!Array.isArray(scenario.steps)) {
+    throw new Error(`${path} has no steps`);
+  }
+  return {
+    initial: {
+      ...DEFAULT_INITIAL_STATE,
+      ...scenario.initial,
+      pool: { ...DEFAULT_INITIAL_STATE.pool, ...scenario.initial?.pool },
+    },
+    steps: scenario.steps,
+  };
+};
+
+const run = (): Promise<void> => {
+  const {
+    positional: [scenarioPath],
+    flags,
+  } = parseArgs(process.argv.slice(2), ["no-mento", "no-floor-ceiling", "trajectory", "json"]);
+
+  const scenario = scenarioPath
+    ? loadScenario(scenarioPath)
+    : createSyntheticScenario(DEFAULT_INITIAL_STATE, {
+        steps: numberFlag(flags, "steps") ?? 500,
+        volatility: numberFlag(flags, "volatility") ?? 0.02,
+        drift: numberFlag(flags, "drift") ?? 0,
+        seed: numberFlag(flags, "seed") ?? 1,
+      });
+
+  const config = getDefaultConfig((stringFlag(flags, "network") ?? "celo") as NetworkName);
+  const policy: IBacktestPolicy = {
+    swapDamping: numberFlag(flags, "damping") ?? config.swapDamping,
+    swapSlippage: numberFlag(flags, "slippage") ?? config.swapSlippage,
+    kGuilderUsdPrice: config.kGuilderUsdPrice,
+    mentoToleranceBand: numberFlag(flags, "mento-band") ?? config.mentoToleranceBand,
+    mentoMaxTransferPerRun: numberFlag(flags, "mento-max-per-run") ?? config.mentoMaxTransferPerRun,
+    mentoMaxTransferPerDay: numberFlag(flags, "mento-max-per-day") ?? config.mentoMaxTransferPerDay,
+    ceilingMultiplier: Math.round((numberFlag(flags, "ceiling-multiplier") ?? 3.5) * BPS),
+    floorCeiling: flags["no-floor-ceiling"] !== true,
+    mento: flags["no-mento"] !== true,
+  };
+
+  const result = runBacktest(scenario, policy);
+
+  if (flags.json === true) {
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify({ policy, ...result }, undefined, 2));
+    return Promise.resolve();
+  }
+
+  if (flags.trajectory === true) {
+    printRows(
+      result.points,
+      false,
+      (point) =>
+        `${point.timestamp ?? point.step}  price ${point.kCurPrice.toFixed(4)} -> ${point.kCurPriceAfter.toFixed(
+          4,
+        )}  floor ${point.floor.toFixed(4)}  ceiling ${point.ceiling.toFixed(4)}  ${[
+          ...point.actions,
+          ...point.skipped,
+        ].join(", ")}`,
+    );
+  }
+
+  const prices = result.points.map((point) => point.kCurPriceAfter);
+  const outsideBand = result.points.filter(
+    (point) => point.kCurPriceAfter < point.floor || point.kCurPriceAfter > point.ceiling,
+  ).length;
+  const skipped = result.points.reduce((count, point) => count + point.skipped.length, 0);
+  const { interventions, totals } = result;
+  const summary = [
+    `steps: ${result.points.length}`,
+    `kCUR price: first ${prices[0]}, last ${prices[prices.length - 1]}, min ${Math.min(...prices)}, max ${Math.max(
+      ...prices,
+    )}`,
+    `steps ending outside the floor and ceiling: ${outsideBand}`,
+    `interventions: floor ${interventions.floor}, ceiling ${interventions.ceiling}, ` +
+      `to MentoReserve ${interventions.toMentoReserve}, from MentoReserve ${interventions.fromMentoReserve}, ` +
+      `skipped ${skipped}`,
+    `cUSD: spent ${totals.cUsdSpent}, received ${totals.cUsdReceived}`,
+    `kCUR: bought ${totals.kCurBought}, sold ${totals.kCurSold}, ` +
+      `to MentoReserve ${totals.kCurToMentoReserve}, from MentoReserve ${totals.kCurFromMentoReserve}`,
+    `Relayer at the end: ${result.final.relayerKCurBalance} kCUR, ${result.final.relayerCUsdBalance} cUSD`,
+  ];
+  printRows(summary, false, (line) => line);
+  return Promise.resolve();
+};
+
+runCli(run, USAGE);
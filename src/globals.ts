@@ -1,5 +1,3 @@
-export const KGUILDER_USDPRICE = 0.5586592178770949; // $USD price of one kG
-
 let _RUNNING_LOCALLY = false;
 
 class Environment {
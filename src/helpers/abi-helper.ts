@@ -1,4 +1,8 @@
+import { NetworkName } from "./config-helper";
 import { logMessage } from "./errors-helper";
+import { getRunState, IRunState } from "./run-helper";
+
+import { Provider } from "@ethersproject/providers";
 
 export interface IContractInfo {
   address: string;
@@ -25,37 +29,105 @@ export interface IAutoRelayHandler {
   apiKey: string;
   apiSecret: string;
   secrets: Record<string, string>;
+  /**
+   * supplied by the Autotask, needed for the Autotask's key-value store
+   */
+  credentials?: string;
+  kvstoreARN?: string;
 }
 
-let abis: IContractInfosJson;
-let sharedAbis: ISharedContractInfos;
+type Abis = NonNullable<IRunState["abis"]>;
 
-export const fetchAbis = (event: IAutoRelayHandler): void => {
-  // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+/**
+ * the ABIs fetched outside of a run, such as by createSimulator in simulator-helper
+ */
+let processAbis: Abis | undefined;
+
+const getAbis = (): Abis => {
+  const runState = getRunState();
+  const abis = runState ? runState.abis : processAbis;
   if (!abis) {
-    logMessage("Abi Helper", "fetching abis");
-
-    /**
-     * note you should be able to run the production build locally if you have "production=1" in your environment
-     */
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-      const isProduction = process.env.production ?? event.secrets.IsProduction ?? false;
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      logMessage("Abi Helper: ", `using ABIs: ${isProduction ? "celo.json" : "celo-test.json"}`);
-      abis = require(`../abis/${isProduction ? "celo.json" : "celo-test.json"}`);
-      abis = require("../abis/celo.json");
-    } catch {
-      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-      throw new Error("abis not found");
+    throw new Error("abis have not been fetched");
+  }
+  return abis;
+};
+
+/**
+ * Load the ABIs and addresses of the contracts deployed to the given network, from src/abis/<network>.json,
+ * for the current run, or for the process when not called within a run
+ */
+export const fetchAbis = (network: NetworkName): void => {
+  const runState = getRunState();
+  const current = runState ? runState.abis : processAbis;
+  if (current?.network === network) {
+    return;
+  }
+
+  logMessage("Abi Helper", `using ABIs: ${network}.json`);
+
+  let contracts: IContractInfosJson;
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    contracts = require(`../abis/${network}.json`);
+  } catch {
+    throw new Error(`abis not found for network: ${network}`);
+  }
+
+  const abis: Abis = { network, contracts, shared: require(`../abis/sharedAbis.json`) };
+  if (runState) {
+    runState.abis = abis;
+  } else {
+    processAbis = abis;
+  }
+};
+
+/**
+ * Refuse to continue when the provider is not on the chain the ABIs were deployed to,
+ * or any of the given contracts has no code at its address.
+ *
+ * @param provider
+ * @param contractNames the contracts the services need
+ */
+export const confirmNetwork = async (provider: Provider, contractNames: Array<string>): Promise<void> => {
+  const { network, contracts: abis } = getAbis();
+  const { chainId } = await provider.getNetwork();
+  if (chainId !== abis.chainId) {
+    throw new Error(
+      `Wrong network: the ${network} ABIs are for chainId ${abis.chainId}, but the provider is on chainId ${chainId}`,
+    );
+  }
+
+  const missing: Array<string> = [];
+  for (const contractName of contractNames) {
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+    const address = abis.contracts[contractName]?.address;
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+    if (!address) {
+      missing.push(`${contractName} (no address)`);
+    } else if ((await provider.getCode(address)) === "0x") {
+      missing.push(`${contractName} (no code at ${address})`);
     }
+  }
 
-    sharedAbis = require(`../abis/sharedAbis.json`);
+  if (missing.length) {
+    throw new Error(
+      `Wrong network: contracts are not deployed to ${network} (chainId ${chainId}): ${missing.join(", ")}`,
+    );
   }
+
+  logMessage("Abi Helper", `confirmed ${contractNames.length} contracts on ${network} (chainId ${chainId})`);
+};
+
+/**
+ * @returns the chainId of the network the ABIs were loaded for
+ */
+export const getChainId = (): number => {
+  return getAbis().contracts.chainId;
 };
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export const getContractAbi = (contractName: string): Array<any> => {
+  const { contracts: abis, shared: sharedAbis } = getAbis();
   // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
   let abi = abis.contracts[contractName]?.abi;
   if (typeof abi === "string") {
@@ -75,9 +147,9 @@ export const getContractAbi = (contractName: string): Array<any> => {
 };
 
 export const getContractAddress = (contractName: string): string => {
-  const contractInfo: IContractInfo = abis.contracts[contractName];
+  const contractInfo: IContractInfo | undefined = getAbis().contracts.contracts[contractName];
   // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-  if (!contractInfo.address) {
+  if (!contractInfo?.address) {
     throw new Error(`abi address not found for ${contractName}`);
   }
   return contractInfo.address;
@@ -0,0 +1,402 @@
+import { IConfig } from "./config-helper";
+import { fromWeiToNumber } from "./contracts-helper";
+import {
+  BPS,
+  checkReserveLimits,
+  computeCeilingDelta,
+  computeFloorDelta,
+  computeMentoDelta,
+  computeMentoRebalance,
+  getCeiling,
+  getFloor,
+  IKCurPool,
+  MentoDecision,
+} from "./policy-helper";
+import { inGivenOut, outGivenIn, spotPrice } from "./weighted-math-helper";
+
+import { parseUnits } from "ethers/lib/utils";
+
+/**
+ * Replays a series of market states through the decisions the floor and ceiling and Mento services make
+ * (see policy-helper), simulating the swaps against a weighted pool and the transfers to and from the MentoReserve.
+ */
+
+export interface IWeightedPool {
+  kCurBalance: number;
+  cUsdBalance: number;
+  /**
+   * normalized, kCurWeight + cUsdWeight = 1
+   */
+  kCurWeight: number;
+  cUsdWeight: number;
+  /**
+   * such as 0.003
+   */
+  swapFee: number;
+}
+
+export interface IBacktestState {
+  pool: IWeightedPool;
+  /**
+   * $USD valuation of the Reserve
+   */
+  reserveValue: number;
+  kCurSupply: number;
+  cUsdPrice: number;
+  /**
+   * kCUR in the MentoReserve
+   */
+  kCurMentoBalance: number;
+  kGTotalSupply: number;
+  relayerKCurBalance: number;
+  relayerCUsdBalance: number;
+}
+
+/**
+ * The market at one point in time.  Anything not given is unchanged from the previous step.
+ */
+export interface IBacktestStep {
+  /**
+   * for the report only
+   */
+  timestamp?: string;
+  cUsdPrice?: number;
+  reserveValue?: number;
+  kCurSupply?: number;
+  kGTotalSupply?: number;
+  /**
+   * observed, historical pool balances.  The simulated swaps of earlier steps are added on top of them,
+   * which assumes the rest of the market would have traded the same regardless.
+   */
+  poolBalances?: { kCurBalance: number; cUsdBalance: number };
+  /**
+   * a synthetic trade by the rest of the market, swapping into the pool
+   */
+  trade?: { kCurIn?: number; cUsdIn?: number };
+}
+
+export interface IBacktestScenario {
+  initial: IBacktestState;
+  steps: Array<IBacktestStep>;
+}
+
+export interface IBacktestPolicy
+  extends Pick<
+    IConfig,
+    | "swapDamping"
+    | "swapSlippage"
+    | "kGuilderUsdPrice"
+    | "mentoToleranceBand"
+    | "mentoMaxTransferPerRun"
+    | "mentoMaxTransferPerDay"
+  > {
+  /**
+   * ProxyPool.ceilingMultiplier, times BPS, such as 35000 for 3.5
+   */
+  ceilingMultiplier: number;
+  floorCeiling: boolean;
+  mento: boolean;
+}
+
+export type BacktestAction = "floor" | "ceiling" | "toMentoReserve" | "fromMentoReserve";
+
+export interface IBacktestPoint {
+  step: number;
+  timestamp?: string;
+  /**
+   * $USD price before any intervention
+   */
+  kCurPrice: number;
+  /**
+   * $USD price after the interventions of the step
+   */
+  kCurPriceAfter: number;
+  floor: number;
+  ceiling: number;
+  /**
+   * not / BPS
+   */
+  backingRatio: number;
+  actions: Array<BacktestAction>;
+  /**
+   * what the Mento rebalancing decided, when it ran
+   */
+  mentoDecision?: MentoDecision;
+  /**
+   * interventions that were called for but could not be made, such as for a lack of funds
+   */
+  skipped: Array<string>;
+}
+
+export interface IBacktestTotals {
+  cUsdSpent: number;
+  cUsdReceived: number;
+  kCurBought: number;
+  kCurSold: number;
+  kCurToMentoReserve: number;
+  kCurFromMentoReserve: number;
+}
+
+export interface IBacktestResult {
+  points: Array<IBacktestPoint>;
+  interventions: Record<BacktestAction, number>;
+  totals: IBacktestTotals;
+  final: IBacktestState;
+}
+
+const toWeiAmount = (value: number): ReturnType<typeof parseUnits> => parseUnits(value.toFixed(18), 18);
+
+/**
+ * the pool, as the services read it from the contracts
+ */
+const toKCurPool = (pool: IWeightedPool): IKCurPool => {
+  return {
+    kCur: { balance: toWeiAmount(pool.kCurBalance), weight: toWeiAmount(pool.kCurWeight) },
+    cUsd: { balance: toWeiAmount(pool.cUsdBalance), weight: toWeiAmount(pool.cUsdWeight) },
+    swapFee: toWeiAmount(pool.swapFee),
+  };
+};
+
+/**
+ * $ cUSD price of one kCUR
+ */
+export const getSpotPrice = (pool: IWeightedPool): number => {
+  const { kCur, cUsd } = toKCurPool(pool);
+  return fromWeiToNumber(spotPrice(cUsd, kCur), 18);
+};
+
+/**
+ * @returns the kCUR received
+ */
+const swapCUsdIn = (pool: IWeightedPool, cUsdIn: number): number => {
+  const { kCur, cUsd, swapFee } = toKCurPool(pool);
+  const kCurOut = fromWeiToNumber(outGivenIn(cUsd, kCur, toWeiAmount(cUsdIn), swapFee), 18);
+  pool.cUsdBalance += cUsdIn;
+  pool.kCurBalance -= kCurOut;
+  return kCurOut;
+};
+
+/**
+ * @returns the cUSD received
+ */
+const swapKCurIn = (pool: IWeightedPool, kCurIn: number): number => {
+  const { kCur, cUsd, swapFee } = toKCurPool(pool);
+  const cUsdOut = fromWeiToNumber(outGivenIn(kCur, cUsd, toWeiAmount(kCurIn), swapFee), 18);
+  pool.kCurBalance += kCurIn;
+  pool.cUsdBalance -= cUsdOut;
+  return cUsdOut;
+};
+
+/**
+ * Run the scenario through the policy
+ */
+export const runBacktest = (scenario: IBacktestScenario, policy: IBacktestPolicy): IBacktestResult => {
+  const state: IBacktestState = { ...scenario.initial, pool: { ...scenario.initial.pool } };
+  const interventions: Record<BacktestAction, number> = {
+    floor: 0,
+    ceiling: 0,
+    toMentoReserve: 0,
+    fromMentoReserve: 0,
+  };
+  const totals: IBacktestTotals = {
+    cUsdSpent: 0,
+    cUsdReceived: 0,
+    kCurBought: 0,
+    kCurSold: 0,
+    kCurToMentoReserve: 0,
+    kCurFromMentoReserve: 0,
+  };
+  /**
+   * how far our own swaps have moved the pool from the observed balances
+   */
+  const poolOffset = { kCur: 0, cUsd: 0 };
+  /**
+   * for the Mento per-day maximum, which only applies to steps with a timestamp
+   */
+  const mentoTransfers: Array<{ time: number; kCurAmount: number }> = [];
+  const points: Array<IBacktestPoint> = [];
+  const getKCurPrice = (): number => getSpotPrice(state.pool) * state.cUsdPrice;
+
+  scenario.steps.forEach((step, index) => {
+    state.cUsdPrice = step.cUsdPrice ?? state.cUsdPrice;
+    state.reserveValue = step.reserveValue ?? state.reserveValue;
+    state.kCurSupply = step.kCurSupply ?? state.kCurSupply;
+    state.kGTotalSupply = step.kGTotalSupply ?? state.kGTotalSupply;
+    if (step.poolBalances) {
+      state.pool.kCurBalance = step.poolBalances.kCurBalance + poolOffset.kCur;
+      state.pool.cUsdBalance = step.poolBalances.cUsdBalance + poolOffset.cUsd;
+    }
+    if (step.trade?.kCurIn) {
+      swapKCurIn(state.pool, step.trade.kCurIn);
+    }
+    if (step.trade?.cUsdIn) {
+      swapCUsdIn(state.pool, step.trade.cUsdIn);
+    }
+
+    const kCurPrice = getKCurPrice();
+    /**
+     * as Reserve.reserveStatus computes it, in whole BPS
+     */
+    const backingRatio = Math.floor((state.reserveValue * BPS) / (state.kCurSupply * kCurPrice));
+    const floor = getFloor(backingRatio, kCurPrice);
+    const ceiling = getCeiling(policy.ceilingMultiplier, floor);
+    const point: IBacktestPoint = {
+      step: index,
+      timestamp: step.timestamp,
+      kCurPrice,
+      kCurPriceAfter: kCurPrice,
+      floor,
+      ceiling,
+      backingRatio,
+      actions: [],
+      skipped: [],
+    };
+
+    const pool = toKCurPool(state.pool);
+    const [breached, floorBreached] = checkReserveLimits(backingRatio, policy.ceilingMultiplier);
+
+    if (policy.floorCeiling && breached && floorBreached) {
+      const kCurOutAmount = computeFloorDelta(floor, pool, policy);
+      const kCurOut = fromWeiToNumber(kCurOutAmount, 18);
+      const cUsdIn =
+        kCurOutAmount.gt(0) && kCurOutAmount.lt(pool.kCur.balance)
+          ? fromWeiToNumber(inGivenOut(pool.cUsd, pool.kCur, kCurOutAmount, pool.swapFee), 18)
+          : 0;
+      if (!(kCurOut > 0 && cUsdIn > 0)) {
+        point.skipped.push(`floor: cannot buy ${kCurOut} kCUR from the pool`);
+      } else if (cUsdIn > state.relayerCUsdBalance) {
+        point.skipped.push(`floor: the Relayer lacks the ${cUsdIn} cUSD to buy ${kCurOut} kCUR`);
+      } else {
+        const kCurReceived = swapCUsdIn(state.pool, cUsdIn);
+        state.relayerCUsdBalance -= cUsdIn;
+        state.relayerKCurBalance += kCurReceived;
+        poolOffset.cUsd += cUsdIn;
+        poolOffset.kCur -= kCurReceived;
+        totals.cUsdSpent += cUsdIn;
+        totals.kCurBought += kCurReceived;
+        ++interventions.floor;
+        point.actions.push("floor");
+      }
+    } else if (policy.floorCeiling && breached) {
+      const { kCurAmount } = computeCeilingDelta(ceiling, pool, policy);
+      const kCurIn = fromWeiToNumber(kCurAmount, 18);
+      if (!(kCurIn > 0)) {
+        point.skipped.push("ceiling: after the swap fee the pool is within the ceiling");
+      } else if (kCurIn > state.relayerKCurBalance) {
+        point.skipped.push(`ceiling: the Relayer lacks the ${kCurIn} kCUR to sell`);
+      } else {
+        const cUsdReceived = swapKCurIn(state.pool, kCurIn);
+        state.relayerKCurBalance -= kCurIn;
+        state.relayerCUsdBalance += cUsdReceived;
+        poolOffset.kCur += kCurIn;
+        poolOffset.cUsd -= cUsdReceived;
+        totals.kCurSold += kCurIn;
+        totals.cUsdReceived += cUsdReceived;
+        ++interventions.ceiling;
+        point.actions.push("ceiling");
+      }
+    }
+
+    if (policy.mento) {
+      /**
+       * the Mento service runs on the price the kCUR Oracle was given, from before this run's swaps
+       */
+      const time = point.timestamp ? Date.parse(point.timestamp) : NaN;
+      const transferredToday = Number.isNaN(time)
+        ? 0
+        : mentoTransfers
+            .filter((transfer) => time - transfer.time < 24 * 60 * 60 * 1000)
+            .reduce((total, transfer) => total + transfer.kCurAmount, 0);
+      const mentoDelta = computeMentoRebalance(
+        computeMentoDelta(
+          toWeiAmount(state.kCurMentoBalance),
+          toWeiAmount(state.kGTotalSupply),
+          kCurPrice,
+          policy.kGuilderUsdPrice,
+        ),
+        policy,
+        toWeiAmount(transferredToday),
+      );
+      point.mentoDecision = mentoDelta.decision;
+      const kCurAmount = fromWeiToNumber(mentoDelta.kCurAmount, 18);
+      if (kCurAmount > 0 && mentoDelta.toMentoReserve) {
+        if (kCurAmount > state.relayerKCurBalance) {
+          point.skipped.push(`mento: the Relayer lacks the ${kCurAmount} kCUR to send to the MentoReserve`);
+        } else {
+          state.relayerKCurBalance -= kCurAmount;
+          state.kCurMentoBalance += kCurAmount;
+          totals.kCurToMentoReserve += kCurAmount;
+          ++interventions.toMentoReserve;
+          point.actions.push("toMentoReserve");
+          mentoTransfers.push({ time, kCurAmount });
+        }
+      } else if (kCurAmount > 0) {
+        if (kCurAmount > state.kCurMentoBalance) {
+          point.skipped.push(`mento: the MentoReserve lacks the ${kCurAmount} kCUR to send to the Relayer`);
+        } else {
+          state.kCurMentoBalance -= kCurAmount;
+          state.relayerKCurBalance += kCurAmount;
+          totals.kCurFromMentoReserve += kCurAmount;
+          ++interventions.fromMentoReserve;
+          point.actions.push("fromMentoReserve");
+          mentoTransfers.push({ time, kCurAmount });
+        }
+      }
+    }
+
+    point.kCurPriceAfter = getKCurPrice();
+    points.push(point);
+  });
+
+  return { points, interventions, totals, final: state };
+};
+
+export interface ISyntheticScenarioOptions {
+  steps: number;
+  /**
+   * standard deviation of each market trade, as a fraction of the pool's cUSD balance
+   */
+  volatility: number;
+  /**
+   * mean of each market trade, as a fraction of the pool's cUSD balance, positive buys kCUR
+   */
+  drift: number;
+  seed: number;
+}
+
+/**
+ * a small seeded PRNG (mulberry32), so a synthetic scenario can be replayed exactly
+ */
+const createRandom = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return (): number => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * @returns a scenario of random market trades against the pool, from the initial state
+ */
+export const createSyntheticScenario = (
+  initial: IBacktestState,
+  { steps, volatility, drift, seed }: ISyntheticScenarioOptions,
+): IBacktestScenario => {
+  const random = createRandom(seed);
+  /**
+   * Box-Muller
+   */
+  const normal = (): number => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+  const scenario: IBacktestScenario = { initial, steps: [] };
+  for (let i = 0; i < steps; ++i) {
+    const size = (drift + volatility * normal()) * initial.pool.cUsdBalance;
+    scenario.steps.push({
+      trade: size >= 0 ? { cUsdIn: size } : { kCurIn: -size / getSpotPrice(initial.pool) },
+    });
+  }
+  return scenario;
+};
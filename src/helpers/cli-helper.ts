@@ -0,0 +1,79 @@
+/**
+ * For the command-line tools, such as history-cli
+ */
+
+export type CliFlags = Record<string, string | true>;
+
+export interface ICliArgs {
+  positional: Array<string>;
+  flags: CliFlags;
+}
+
+/**
+ * @param args such as process.argv.slice(2)
+ * @param booleanFlags the flags that take no value
+ */
+export const parseArgs = (args: Array<string>, booleanFlags: Array<string>): ICliArgs => {
+  const parsed: ICliArgs = { positional: [], flags: {} };
+  for (let i = 0; i < args.length; ++i) {
+    const arg = args[i];
+    if (arg.startsWith("--")) {
+      const name = arg.slice(2);
+      if (booleanFlags.includes(name)) {
+        parsed.flags[name] = true;
+      } else {
+        if (i + 1 >= args.length) {
+          throw new Error(`${arg} needs a value`);
+        }
+        parsed.flags[name] = args[++i];
+      }
+    } else {
+      parsed.positional.push(arg);
+    }
+  }
+  return parsed;
+};
+
+export const stringFlag = (flags: CliFlags, name: string): string | undefined => {
+  const value = flags[name];
+  return typeof value === "string" ? value : undefined;
+};
+
+/**
+ * @returns undefined when the flag is not given, throws when it is not a number
+ */
+export const numberFlag = (flags: CliFlags, name: string): number | undefined => {
+  const value = stringFlag(flags, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (isNaN(number)) {
+    throw new Error(`--${name}: "${value}" is not a number`);
+  }
+  return number;
+};
+
+export const printRows = <T>(rows: Array<T>, json: boolean, format: (row: T) => string): void => {
+  // eslint-disable-next-line no-console
+  console.log(json ? JSON.stringify(rows, undefined, 2) : rows.map(format).join("\n"));
+};
+
+/**
+ * Run the tool, or print the usage given --help, exiting with 1 and the usage when it throws
+ */
+export const runCli = (run: () => Promise<void>, usage: string): void => {
+  if (process.argv.includes("--help")) {
+    // eslint-disable-next-line no-console
+    console.log(usage);
+    process.exit(0);
+  }
+  Promise.resolve()
+    .then(run)
+    .then(() => process.exit(0))
+    .catch((error: Error) => {
+      // eslint-disable-next-line no-console
+      console.error(`${error.message}\n\n${usage}`);
+      process.exit(1);
+    });
+};
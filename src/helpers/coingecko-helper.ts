@@ -1,4 +1,5 @@
 import { logMessage } from "./errors-helper";
+import { IPriceSource } from "./price-helper";
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const axios = require("axios");
@@ -26,3 +27,10 @@ export const getTokenGeckoPrice = (geckoTokenId: string, coinGeckoApiKey: string
 
   return Promise.resolve(1.0);
 };
+
+export const createCoinGeckoPriceSource = (geckoTokenId: string, coinGeckoApiKey: string): IPriceSource => {
+  return {
+    name: "CoinGecko",
+    getPrice: (): Promise<number> => getTokenGeckoPrice(geckoTokenId, coinGeckoApiKey),
+  };
+};
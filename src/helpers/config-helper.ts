@@ -0,0 +1,624 @@
+import { environment } from "../globals";
+
+import { IAutoRelayHandler } from "./abi-helper";
+import { logMessage } from "./errors-helper";
+import { FxSourceName } from "./fx-helper";
+import { NotificationSinkName } from "./notifications-helper";
+import { getRunState } from "./run-helper";
+
+export type NetworkName = "celo" | "celo-test" | "alfajores";
+
+export type KCurPriceMode = "spot" | "twap" | "median";
+
+/**
+ * The policy values the services run with
+ */
+export interface IConfig {
+  /**
+   * which deployment of the Kolektivo contracts to run against
+   */
+  network: NetworkName;
+  /**
+   * when true, services read on-chain state and compute their decisions, but nothing is signed or sent
+   */
+  dryRun: boolean;
+  /**
+   * ids of the services that should not run, see services-registry
+   */
+  disabledServices: Array<string>;
+  /**
+   * how long a run holds the run lock, after which a run that crashed without releasing it is assumed gone
+   */
+  runLockTtlSeconds: number;
+  /**
+   * the notification sinks that info notifications, such as "resolved" messages for info conditions, are sent to
+   */
+  notifyInfo: Array<NotificationSinkName>;
+  /**
+   * the notification sinks that warnings, such as requests to fund the Relayer, are sent to
+   */
+  notifyWarning: Array<NotificationSinkName>;
+  /**
+   * the notification sinks that critical notifications, such as service failures, are sent to
+   */
+  notifyCritical: Array<NotificationSinkName>;
+  /**
+   * the Defender notification channel alias
+   */
+  defenderNotificationChannel: string;
+  /**
+   * file the "file" notification sink appends to
+   */
+  notificationsFile: string;
+  /**
+   * file the metrics are written to in the OpenMetrics text format, only when running locally
+   */
+  metricsFile: string;
+  /**
+   * file the run snapshots are appended to, when running locally
+   */
+  historyFile: string;
+  /**
+   * how many run snapshots to keep in the Autotask's key-value store
+   */
+  historyMaxSnapshots: number;
+  /**
+   * how long to wait for a transaction a service relies on to be mined
+   */
+  txTimeoutSeconds: number;
+  /**
+   * how often to check on a transaction being waited on
+   */
+  txPollIntervalSeconds: number;
+  /**
+   * top up the Relayer's kCUR when it falls below this, see inventory-service
+   */
+  inventoryKCurMinimum: number;
+  /**
+   * the kCUR the Relayer is topped up to, what it holds above this may be swapped to top up the other tokens
+   */
+  inventoryKCurTarget: number;
+  /**
+   * top up the Relayer's cUSD when it falls below this
+   */
+  inventoryCUsdMinimum: number;
+  /**
+   * the cUSD the Relayer is topped up to
+   */
+  inventoryCUsdTarget: number;
+  /**
+   * top up the Relayer's kG when it falls below this
+   */
+  inventoryKGuilderMinimum: number;
+  /**
+   * the kG the Relayer is topped up to
+   */
+  inventoryKGuilderTarget: number;
+  /**
+   * $USD price of one kG when the FX sources can't supply it, the peg of 1.79 Guilders to USD
+   */
+  kGuilderUsdPrice: number;
+  /**
+   * the foreign exchange sources of the Guilder (ANG) to USD rate that kG is pegged to
+   */
+  kGuilderPriceSources: Array<FxSourceName>;
+  /**
+   * a kG price source is rejected when further than this fraction from the median of all the sources
+   */
+  kGuilderPriceTolerance: number;
+  /**
+   * number of kG price sources that must agree, else the fallback price is used
+   */
+  kGuilderPriceQuorum: number;
+  /**
+   * a kG price from the sources below this is not believed, and the fallback price is used
+   */
+  kGuilderPriceMin: number;
+  /**
+   * a kG price from the sources above this is not believed, and the fallback price is used
+   */
+  kGuilderPriceMax: number;
+  /**
+   * how long a kG price from the sources is reused by later runs before the sources are asked again
+   */
+  kGuilderPriceCacheSeconds: number;
+  /**
+   * price of the static reference source for cUSD, which never counts toward the quorum, and the cUSD price the
+   * services use when the market sources don't reach a quorum
+   */
+  cUsdStaticPrice: number;
+  /**
+   * a cUSD price source is rejected when further than this fraction from the median of all the sources
+   */
+  cUsdPriceTolerance: number;
+  /**
+   * number of cUSD market price sources that must agree before we will report to the cUSD Oracle, else the static
+   * price is used
+   */
+  cUsdPriceQuorum: number;
+  /**
+   * push the cUSD price when it deviates from the last report by more than this fraction
+   */
+  cUsdOracleDeviationThreshold: number;
+  /**
+   * push the cUSD price when the last report is older than this
+   */
+  cUsdOracleHeartbeatSeconds: number;
+  /**
+   * how getKCurPrice arrives at the price of kCUR:
+   *  "spot": the kCur Pool spot price at the current block
+   *  "twap": time-weighted average of the samples of the kCur Pool spot price
+   *  "median": median of the samples of the kCur Pool spot price
+   */
+  kCurPriceMode: KCurPriceMode;
+  /**
+   * number of past blocks, besides the current one, to sample on every run
+   */
+  kCurSampleBlocks: number;
+  /**
+   * number of blocks between samples
+   */
+  kCurSampleBlockInterval: number;
+  /**
+   * how far back samples, including those from past runs, are used
+   */
+  kCurSampleWindowSeconds: number;
+  /**
+   * refuse to report a price when the spot price is further than this fraction from the twap/median price
+   */
+  kCurMaxSpotDivergence: number;
+  /**
+   * push the kCUR price when it deviates from the last report by more than this fraction
+   */
+  kCurOracleDeviationThreshold: number;
+  /**
+   * push the kCUR price when the last report is older than this
+   */
+  kCurOracleHeartbeatSeconds: number;
+  /**
+   * report the kG/kCUR rate to SortedOracles when it deviates from the last report by more than this fraction
+   */
+  kGkCurRateDeviationThreshold: number;
+  /**
+   * report the kG/kCUR rate when the last report is older than this, or than the SortedOracles report expiry
+   */
+  kGkCurRateHeartbeatSeconds: number;
+  /**
+   * refuse to report a kG/kCUR rate further than this fraction from the median of the other SortedOracles oracles,
+   * or from our own last report when no other oracle has a current rate
+   */
+  kGkCurRateMaxJump: number;
+  /**
+   * report to the Oracles and SortedOracles this long before the last report would expire, at least the time
+   * between runs
+   */
+  oracleExpiryMarginSeconds: number;
+  /**
+   * the most kCUR the Mento service moves into or out of the MentoReserve on its own, more is proposed to the
+   * KolektivoMultiSig instead, see multisig-helper
+   */
+  multisigMentoTransferLimit: number;
+  /**
+   * the most cUSD the floor defense spends on its own, more is proposed to the KolektivoMultiSig instead
+   */
+  multisigFloorBuyLimit: number;
+  /**
+   * the most kCUR the ceiling defense sells on its own, more is proposed to the KolektivoMultiSig instead
+   */
+  multisigCeilingSellLimit: number;
+  /**
+   * how long the KolektivoMultiSig has to execute a proposed swap
+   */
+  multisigSwapDeadlineSeconds: number;
+  /**
+   * directory the KolektivoMultiSig proposals are written to, when running locally
+   */
+  multisigProposalsDir: string;
+  /**
+   * the Mento service leaves the MentoReserve alone while the kCUR and kG total values differ by no more than this
+   * fraction of the kG total value
+   */
+  mentoToleranceBand: number;
+  /**
+   * the most kCUR the Mento service moves into or out of the MentoReserve in one run
+   */
+  mentoMaxTransferPerRun: number;
+  /**
+   * the most kCUR the Mento service moves into and out of the MentoReserve, together, in any 24 hours
+   */
+  mentoMaxTransferPerDay: number;
+  /**
+   * the floor and ceiling swap amounts computed by the price model are divided by this
+   */
+  swapDamping: number;
+  /**
+   * the most, as a fraction of the expected cUSD, we'll give up to the pool moving before our swap is mined
+   */
+  swapSlippage: number;
+  /**
+   * the most, as a fraction, the Vault's preview of a swap may differ from what our price model expects
+   */
+  maxSwapPreviewDeviation: number;
+  /**
+   * by what time, from now, a floor or ceiling swap must be executed
+   */
+  swapDeadlineSeconds: number;
+}
+
+interface ISetting<T> {
+  /**
+   * name of the variable in the ".env" file, when running locally
+   */
+  envName: string;
+  /**
+   * name of the Autotask secret
+   */
+  secretName: string;
+  /**
+   * converts the raw value, throws when it cannot be converted
+   */
+  parse(value: string): T;
+  /**
+   * @returns what is wrong with the value, undefined when the value is fine
+   */
+  validate(value: T): string | undefined;
+}
+
+type ConfigSchema = { [K in keyof IConfig]: ISetting<IConfig[K]> };
+
+interface INumberBounds {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+const numberSetting = (envName: string, secretName: string, bounds: INumberBounds): ISetting<number> => {
+  return {
+    envName,
+    secretName,
+    parse: (value: string): number => {
+      const number = Number(value);
+      if (!value.trim() || Number.isNaN(number)) {
+        throw new Error(`"${value}" is not a number`);
+      }
+      return number;
+    },
+    validate: (value: number): string | undefined => {
+      if (!Number.isFinite(value)) {
+        return `${value} is not a finite number`;
+      }
+      if (bounds.integer && !Number.isInteger(value)) {
+        return `${value} is not an integer`;
+      }
+      if (bounds.min !== undefined && value < bounds.min) {
+        return `${value} is less than ${bounds.min}`;
+      }
+      if (bounds.max !== undefined && value > bounds.max) {
+        return `${value} is greater than ${bounds.max}`;
+      }
+      return undefined;
+    },
+  };
+};
+
+const booleanSetting = (envName: string, secretName: string): ISetting<boolean> => {
+  return {
+    envName,
+    secretName,
+    parse: (value: string): boolean => {
+      const normalized = value.trim().toLowerCase();
+      if (["1", "true"].includes(normalized)) {
+        return true;
+      } else if (["0", "false", ""].includes(normalized)) {
+        return false;
+      }
+      throw new Error(`"${value}" is not true or false`);
+    },
+    validate: (): string | undefined => undefined,
+  };
+};
+
+const stringSetting = (envName: string, secretName: string): ISetting<string> => {
+  return {
+    envName,
+    secretName,
+    parse: (value: string): string => value.trim(),
+    validate: (value: string): string | undefined => (value.length ? undefined : "is empty"),
+  };
+};
+
+/**
+ * comma-separated
+ *
+ * @param values when given, the only values allowed in the list
+ */
+const listSetting = <T extends string>(envName: string, secretName: string, values?: Array<T>): ISetting<Array<T>> => {
+  return {
+    envName,
+    secretName,
+    parse: (value: string): Array<T> =>
+      value
+        .split(",")
+        .map((item) => item.trim())
+        .filter((item) => item.length) as Array<T>,
+    validate: (list: Array<T>): string | undefined => {
+      const unknown = values ? list.filter((item) => !values.includes(item)) : [];
+      return unknown.length ? `"${unknown.join(", ")}" not one of: ${values?.join(", ") ?? ""}` : undefined;
+    },
+  };
+};
+
+const notificationSinks: Array<NotificationSinkName> = ["defender", "webhook", "console", "file"];
+
+const fxSources: Array<FxSourceName> = ["open-er-api", "currency-api"];
+
+const oneOfSetting = <T extends string>(envName: string, secretName: string, values: Array<T>): ISetting<T> => {
+  const validate = (value: T): string | undefined =>
+    values.includes(value) ? undefined : `"${value}" is not one of: ${values.join(", ")}`;
+  return {
+    envName,
+    secretName,
+    parse: (value: string): T => {
+      const error = validate(value as T);
+      if (error) {
+        throw new Error(error);
+      }
+      return value as T;
+    },
+    validate,
+  };
+};
+
+const fraction = { min: 0, max: 1 };
+const positiveInteger = { min: 1, integer: true };
+
+const SCHEMA: ConfigSchema = {
+  network: oneOfSetting<NetworkName>("NETWORK", "Network", ["celo", "celo-test", "alfajores"]),
+  dryRun: booleanSetting("DRY_RUN", "DryRun"),
+  disabledServices: listSetting("DISABLED_SERVICES", "DisabledServices"),
+  runLockTtlSeconds: numberSetting("RUN_LOCK_TTL", "RunLockTtl", positiveInteger),
+  notifyInfo: listSetting("NOTIFY_INFO", "NotifyInfo", notificationSinks),
+  notifyWarning: listSetting("NOTIFY_WARNING", "NotifyWarning", notificationSinks),
+  notifyCritical: listSetting("NOTIFY_CRITICAL", "NotifyCritical", notificationSinks),
+  defenderNotificationChannel: stringSetting("DEFENDER_NOTIFICATION_CHANNEL", "DefenderNotificationChannel"),
+  notificationsFile: stringSetting("NOTIFICATIONS_FILE", "NotificationsFile"),
+  metricsFile: stringSetting("METRICS_FILE", "MetricsFile"),
+  historyFile: stringSetting("HISTORY_FILE", "HistoryFile"),
+  historyMaxSnapshots: numberSetting("HISTORY_MAX_SNAPSHOTS", "HistoryMaxSnapshots", positiveInteger),
+  txTimeoutSeconds: numberSetting("TX_TIMEOUT", "TxTimeout", positiveInteger),
+  txPollIntervalSeconds: numberSetting("TX_POLL_INTERVAL", "TxPollInterval", positiveInteger),
+  inventoryKCurMinimum: numberSetting("INVENTORY_KCUR_MINIMUM", "InventoryKCurMinimum", { min: 0 }),
+  inventoryKCurTarget: numberSetting("INVENTORY_KCUR_TARGET", "InventoryKCurTarget", { min: 0 }),
+  inventoryCUsdMinimum: numberSetting("INVENTORY_CUSD_MINIMUM", "InventoryCUsdMinimum", { min: 0 }),
+  inventoryCUsdTarget: numberSetting("INVENTORY_CUSD_TARGET", "InventoryCUsdTarget", { min: 0 }),
+  inventoryKGuilderMinimum: numberSetting("INVENTORY_KG_MINIMUM", "InventoryKGMinimum", { min: 0 }),
+  inventoryKGuilderTarget: numberSetting("INVENTORY_KG_TARGET", "InventoryKGTarget", { min: 0 }),
+  kGuilderUsdPrice: numberSetting("KGUILDER_USD_PRICE", "KGuilderUsdPrice", { min: Number.MIN_VALUE }),
+  kGuilderPriceSources: listSetting("KGUILDER_PRICE_SOURCES", "KGuilderPriceSources", fxSources),
+  kGuilderPriceTolerance: numberSetting("KGUILDER_PRICE_TOLERANCE", "KGuilderPriceTolerance", fraction),
+  kGuilderPriceQuorum: numberSetting("KGUILDER_PRICE_QUORUM", "KGuilderPriceQuorum", { ...positiveInteger, max: 2 }),
+  kGuilderPriceMin: numberSetting("KGUILDER_PRICE_MIN", "KGuilderPriceMin", { min: Number.MIN_VALUE }),
+  kGuilderPriceMax: numberSetting("KGUILDER_PRICE_MAX", "KGuilderPriceMax", { min: Number.MIN_VALUE }),
+  kGuilderPriceCacheSeconds: numberSetting("KGUILDER_PRICE_CACHE", "KGuilderPriceCache", { min: 0, integer: true }),
+  cUsdStaticPrice: numberSetting("CUSD_STATIC_PRICE", "CusdStaticPrice", { min: Number.MIN_VALUE }),
+  cUsdPriceTolerance: numberSetting("CUSD_PRICE_TOLERANCE", "CusdPriceTolerance", fraction),
+  cUsdPriceQuorum: numberSetting("CUSD_PRICE_QUORUM", "CusdPriceQuorum", { ...positiveInteger, max: 2 }),
+  cUsdOracleDeviationThreshold: numberSetting("CUSD_ORACLE_DEVIATION", "CusdOracleDeviation", fraction),
+  cUsdOracleHeartbeatSeconds: numberSetting("CUSD_ORACLE_HEARTBEAT", "CusdOracleHeartbeat", positiveInteger),
+  kCurPriceMode: oneOfSetting<KCurPriceMode>("KCUR_PRICE_MODE", "KCurPriceMode", ["spot", "twap", "median"]),
+  kCurSampleBlocks: numberSetting("KCUR_SAMPLE_BLOCKS", "KCurSampleBlocks", { min: 0, integer: true }),
+  kCurSampleBlockInterval: numberSetting("KCUR_SAMPLE_BLOCK_INTERVAL", "KCurSampleBlockInterval", positiveInteger),
+  kCurSampleWindowSeconds: numberSetting("KCUR_SAMPLE_WINDOW", "KCurSampleWindow", positiveInteger),
+  kCurMaxSpotDivergence: numberSetting("KCUR_MAX_SPOT_DIVERGENCE", "KCurMaxSpotDivergence", fraction),
+  kCurOracleDeviationThreshold: numberSetting("KCUR_ORACLE_DEVIATION", "KCurOracleDeviation", fraction),
+  kCurOracleHeartbeatSeconds: numberSetting("KCUR_ORACLE_HEARTBEAT", "KCurOracleHeartbeat", positiveInteger),
+  kGkCurRateDeviationThreshold: numberSetting("KG_KCUR_RATE_DEVIATION", "KGKCurRateDeviation", fraction),
+  kGkCurRateHeartbeatSeconds: numberSetting("KG_KCUR_RATE_HEARTBEAT", "KGKCurRateHeartbeat", positiveInteger),
+  kGkCurRateMaxJump: numberSetting("KG_KCUR_RATE_MAX_JUMP", "KGKCurRateMaxJump", { min: 0 }),
+  oracleExpiryMarginSeconds: numberSetting("ORACLE_EXPIRY_MARGIN", "OracleExpiryMargin", { min: 0, integer: true }),
+  multisigMentoTransferLimit: numberSetting("MULTISIG_MENTO_TRANSFER_LIMIT", "MultisigMentoTransferLimit", { min: 0 }),
+  multisigFloorBuyLimit: numberSetting("MULTISIG_FLOOR_BUY_LIMIT", "MultisigFloorBuyLimit", { min: 0 }),
+  multisigCeilingSellLimit: numberSetting("MULTISIG_CEILING_SELL_LIMIT", "MultisigCeilingSellLimit", { min: 0 }),
+  multisigSwapDeadlineSeconds: numberSetting("MULTISIG_SWAP_DEADLINE", "MultisigSwapDeadline", positiveInteger),
+  multisigProposalsDir: stringSetting("MULTISIG_PROPOSALS_DIR", "MultisigProposalsDir"),
+  mentoToleranceBand: numberSetting("MENTO_TOLERANCE_BAND", "MentoToleranceBand", fraction),
+  mentoMaxTransferPerRun: numberSetting("MENTO_MAX_TRANSFER_PER_RUN", "MentoMaxTransferPerRun", { min: 0 }),
+  mentoMaxTransferPerDay: numberSetting("MENTO_MAX_TRANSFER_PER_DAY", "MentoMaxTransferPerDay", { min: 0 }),
+  swapDamping: numberSetting("SWAP_DAMPING", "SwapDamping", { min: 1 }),
+  swapSlippage: numberSetting("SWAP_SLIPPAGE", "SwapSlippage", { min: 0, max: 0.5 }),
+  maxSwapPreviewDeviation: numberSetting("MAX_SWAP_PREVIEW_DEVIATION", "MaxSwapPreviewDeviation", fraction),
+  swapDeadlineSeconds: numberSetting("SWAP_DEADLINE", "SwapDeadline", positiveInteger),
+};
+
+const DEFAULTS: Omit<IConfig, "network"> = {
+  dryRun: false,
+  disabledServices: [],
+  runLockTtlSeconds: 60 * 10, // Autotasks time out after five minutes
+  notifyInfo: ["console", "defender", "webhook"],
+  notifyWarning: ["console", "defender", "webhook"],
+  notifyCritical: ["console", "defender", "webhook"],
+  defenderNotificationChannel: "Kolektivo Notifications",
+  notificationsFile: "notifications.jsonl",
+  metricsFile: "metrics.prom",
+  historyFile: "history.jsonl",
+  historyMaxSnapshots: 100,
+  txTimeoutSeconds: 120,
+  txPollIntervalSeconds: 5,
+  inventoryKCurMinimum: 5000,
+  inventoryKCurTarget: 25000,
+  inventoryCUsdMinimum: 5000,
+  inventoryCUsdTarget: 25000,
+  inventoryKGuilderMinimum: 50,
+  inventoryKGuilderTarget: 500,
+  kGuilderUsdPrice: 0.5586592178770949,
+  kGuilderPriceSources: ["open-er-api", "currency-api"],
+  kGuilderPriceTolerance: 0.005,
+  kGuilderPriceQuorum: 1,
+  kGuilderPriceMin: 0.55,
+  kGuilderPriceMax: 0.57,
+  kGuilderPriceCacheSeconds: 60 * 60,
+  cUsdStaticPrice: 1,
+  cUsdPriceTolerance: 0.02,
+  cUsdPriceQuorum: 2,
+  cUsdOracleDeviationThreshold: 0.005,
+  cUsdOracleHeartbeatSeconds: 60 * 60 * 6,
+  kCurPriceMode: "twap",
+  kCurSampleBlocks: 5,
+  kCurSampleBlockInterval: 60, // about 5 minutes on Celo
+  kCurSampleWindowSeconds: 60 * 60,
+  kCurMaxSpotDivergence: 0.05,
+  kCurOracleDeviationThreshold: 0.01,
+  kCurOracleHeartbeatSeconds: 60 * 60 * 6,
+  kGkCurRateDeviationThreshold: 0.005,
+  kGkCurRateHeartbeatSeconds: 60 * 60 * 6,
+  kGkCurRateMaxJump: 0.1,
+  oracleExpiryMarginSeconds: 60 * 30,
+  multisigMentoTransferLimit: 20000,
+  multisigFloorBuyLimit: 50000,
+  multisigCeilingSellLimit: 50000,
+  multisigSwapDeadlineSeconds: 60 * 60 * 24 * 3,
+  multisigProposalsDir: "proposals",
+  mentoToleranceBand: 0.01,
+  mentoMaxTransferPerRun: 20000,
+  mentoMaxTransferPerDay: 100000,
+  swapDamping: 1.5,
+  swapSlippage: 0.01,
+  maxSwapPreviewDeviation: 0.02,
+  swapDeadlineSeconds: 60 * 60, // used previously in Prime Launch
+};
+
+/**
+ * the Relayer holds far less on the test networks
+ */
+const TEST_NETWORK_INVENTORY: Partial<IConfig> = {
+  inventoryKCurMinimum: 5,
+  inventoryKCurTarget: 50,
+  inventoryCUsdMinimum: 5,
+  inventoryCUsdTarget: 50,
+  inventoryKGuilderMinimum: 5,
+  inventoryKGuilderTarget: 50,
+};
+
+/**
+ * where a network differs from the defaults
+ */
+const NETWORK_DEFAULTS: Record<NetworkName, Partial<IConfig>> = {
+  celo: {},
+  "celo-test": TEST_NETWORK_INVENTORY,
+  alfajores: TEST_NETWORK_INVENTORY,
+};
+
+type NumberSettingName = { [K in keyof IConfig]: IConfig[K] extends number ? K : never }[keyof IConfig];
+
+/**
+ * a number setting that must be at least, or when strict above, another number setting
+ */
+interface IRelation {
+  key: NumberSettingName;
+  other: NumberSettingName;
+  strict: boolean;
+}
+
+const RELATIONS: Array<IRelation> = [
+  { key: "inventoryKCurTarget", other: "inventoryKCurMinimum", strict: false },
+  { key: "inventoryCUsdTarget", other: "inventoryCUsdMinimum", strict: false },
+  { key: "inventoryKGuilderTarget", other: "inventoryKGuilderMinimum", strict: false },
+  { key: "kGuilderPriceMax", other: "kGuilderPriceMin", strict: true },
+];
+
+/**
+ * @returns the configuration for the network without any overrides, such as for backtests
+ */
+export const getDefaultConfig = (network: NetworkName): IConfig => {
+  return { ...DEFAULTS, ...NETWORK_DEFAULTS[network], network };
+};
+
+/**
+ * Build the configuration from the defaults for the network, overridden by any values in the ".env" file
+ * when running locally, or by the Autotask secrets.  Throws, listing every bad value, when any value is invalid
+ * or any values disagree with one another, see RELATIONS.
+ *
+ * When not given, the network is "celo" in production ("production" in the environment or the IsProduction
+ * secret), otherwise "celo-test".  Within a run, getConfig returns it for the rest of the run.
+ */
+export const initializeConfig = (event: IAutoRelayHandler): IConfig => {
+  const getRawValue = (setting: ISetting<unknown>): string | undefined =>
+    environment.runningLocally ? process.env[setting.envName] : event.secrets[setting.secretName];
+
+  const errors: Array<string> = [];
+  const overridden = new Set<string>();
+
+  const resolve = <K extends keyof IConfig>(key: K, defaultValue: IConfig[K]): IConfig[K] => {
+    const setting = SCHEMA[key];
+    const rawValue = getRawValue(setting);
+    let value = defaultValue;
+    if (rawValue !== undefined) {
+      try {
+        value = setting.parse(rawValue);
+        overridden.add(key);
+      } catch (ex) {
+        errors.push(`${key} (${setting.envName} / ${setting.secretName}): ${(ex as Error).message}`);
+        return defaultValue;
+      }
+    }
+    const error = setting.validate(value);
+    if (error) {
+      errors.push(`${key} (${setting.envName} / ${setting.secretName}): ${error}`);
+    }
+    return value;
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+  const isProduction = process.env.production ?? event.secrets.IsProduction;
+  const network = resolve("network", isProduction ? "celo" : "celo-test");
+  const defaults: IConfig = { network, ...DEFAULTS, ...NETWORK_DEFAULTS[network] };
+
+  const newConfig: IConfig = { ...defaults };
+  const setValue = <K extends keyof IConfig>(key: K): void => {
+    newConfig[key] = resolve(key, defaults[key]);
+  };
+  for (const key of Object.keys(defaults) as Array<keyof IConfig>) {
+    if (key !== "network") {
+      setValue(key);
+    }
+  }
+
+  for (const { key, other, strict } of RELATIONS) {
+    if (strict ? newConfig[key] <= newConfig[other] : newConfig[key] < newConfig[other]) {
+      const setting = SCHEMA[key];
+      errors.push(
+        `${key} (${setting.envName} / ${setting.secretName}): ${newConfig[key]} must be ${
+          strict ? "above" : "at least"
+        } ${other} (${newConfig[other]})`,
+      );
+    }
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid configuration:\n  ${errors.join("\n  ")}`);
+  }
+
+  logMessage(
+    "Config",
+    `effective settings: ${(Object.keys(newConfig) as Array<keyof IConfig>)
+      .map((key) => `${key}=${String(newConfig[key])}${overridden.has(key) ? " (overridden)" : ""}`)
+      .join(", ")}`,
+  );
+
+  const runState = getRunState();
+  if (runState) {
+    runState.config = newConfig;
+  }
+  return newConfig;
+};
+
+/**
+ * @returns the config of the current run
+ */
+export const getConfig = (): IConfig => {
+  const config = getRunState()?.config;
+  if (!config) {
+    throw new Error("config has not been initialized");
+  }
+  return config;
+};
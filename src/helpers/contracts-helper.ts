@@ -1,20 +1,53 @@
 import { getContractAbi, getContractAddress } from "./abi-helper";
+import { getRunState } from "./run-helper";
 
 import { TransactionReceipt, TransactionResponse } from "@ethersproject/providers";
-import { DefenderRelaySigner } from "defender-relay-client/lib/ethers/signer";
-import { BigNumber, BigNumberish, Contract, ethers } from "ethers";
+import { BigNumber, BigNumberish, Contract, ethers, Signer } from "ethers";
 import { formatUnits, parseUnits } from "ethers/lib/utils";
 
 export interface ITransaction extends TransactionResponse {
-  transactionId: string; // Defender transaction identifier
+  transactionId?: string; // Defender transaction identifier, not present when signed by a plain Wallet
 }
 
 export { TransactionReceipt as ITransactionReceipt };
 
-export const getContract = (contractName: string, signer: DefenderRelaySigner): Contract => {
-  const address = getContractAddress(contractName);
-  const abi = getContractAbi(contractName);
-  return new ethers.Contract(address, abi, signer);
+/**
+ * Creates the contract objects the services use, see setContractFactory
+ */
+export type ContractFactory = (
+  contractName: string,
+  address: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  abi: Array<any>,
+  signer: Signer,
+) => Contract;
+
+const ethersContractFactory: ContractFactory = (_contractName, address, abi, signer): Contract =>
+  new ethers.Contract(address, abi, signer);
+
+/**
+ * Replace the factory of contract objects for the current run, such as with the simulator in simulator-helper
+ *
+ * @param factory when not given, the default, real contracts on the signer's chain
+ */
+export const setContractFactory = (factory?: ContractFactory): void => {
+  const runState = getRunState();
+  if (!runState) {
+    throw new Error("the contract factory can only be set within a run");
+  }
+  runState.contractFactory = factory;
+};
+
+/**
+ * @param contractName name of the ABI, for contracts whose address is only known at runtime, such as an Oracle
+ */
+export const getContractAt = (contractName: string, address: string, signer: Signer): Contract => {
+  const contractFactory = getRunState()?.contractFactory ?? ethersContractFactory;
+  return contractFactory(contractName, address, getContractAbi(contractName), signer);
+};
+
+export const getContract = (contractName: string, signer: Signer): Contract => {
+  return getContractAt(contractName, getContractAddress(contractName), signer);
 };
 
 /**
@@ -0,0 +1,33 @@
+import { logMessage } from "./errors-helper";
+import { IPriceSource } from "./price-helper";
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const axios = require("axios");
+
+/**
+ * @param coinKey "<chain>:<token address>", see https://defillama.com/docs/api
+ */
+export const getTokenDefiLlamaPrice = (coinKey: string): Promise<number> => {
+  logMessage("DefiLlama Helper", `fetching from DefiLlama: ${coinKey}`);
+
+  return (
+    axios
+      .get(`https://coins.llama.fi/prices/current/${coinKey}`)
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .then((response: any) => {
+        return response.data.coins?.[coinKey]?.price ?? 0;
+      })
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .catch((ex: any) => {
+        // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
+        throw new Error(`price not found for token: ${coinKey}, ex: ${ex.message}`);
+      })
+  );
+};
+
+export const createDefiLlamaPriceSource = (coinKey: string): IPriceSource => {
+  return {
+    name: "DefiLlama",
+    getPrice: (): Promise<number> => getTokenDefiLlamaPrice(coinKey),
+  };
+};
@@ -1,14 +1,18 @@
-import { sendNotification } from "./notifications-helper";
+import { incrementCounter } from "./metrics-helper";
+import { notify } from "./notifications-helper";
+import { recordError } from "./report-helper";
+import { getRunState } from "./run-helper";
 
 interface IError {
   message: string;
   stack: string;
 }
 
-export let failedStatus = false;
-
-export const clearFailedStatus = (): void => {
-  failedStatus = false;
+/**
+ * @returns true when one or more services have failed in the current run
+ */
+export const hasRunFailed = (): boolean => {
+  return getRunState()?.failed ?? false;
 };
 
 /**
@@ -19,15 +23,18 @@ export const clearFailedStatus = (): void => {
  * @param stack
  */
 const _serviceFailed = (serviceName: string, message: string, stack?: string): void => {
-  failedStatus = true;
-  const subject = `A Kolektivo service has failed: ${serviceName}`;
+  const runState = getRunState();
+  if (runState) {
+    runState.failed = true;
+  }
+  recordError(serviceName, message);
+  incrementCounter("kolektivo_service_failures", { service: serviceName });
   // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
   message = `${message}\r\n${stack ?? "no stack trace available"}`;
-  try {
-    sendNotification(subject, message);
-  } catch {
-    /* empty */
-  }
+  /**
+   * repeated failures of the service are only notified once, until the service succeeds again
+   */
+  notify("serviceFailed", { serviceName, message }, `serviceFailed:${serviceName}`);
   /**
    * this will go to the Autotask log
    */
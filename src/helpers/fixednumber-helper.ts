@@ -1,82 +1,339 @@
 import { BigNumber, FixedNumber } from "ethers";
+import { formatUnits, parseUnits } from "ethers/lib/utils";
+
+/**
+ * Fixed-point math on ethers FixedNumbers of any format (decimals), see https://docs.ethers.org/v5/api/utils/fixednumber/
+ *
+ * Error bound: ln, exp, fractional pow and sqrt work at twice the decimals of their input (at least 36), and
+ * their series and iterations stop once the next term or correction is less than one unit of that last decimal.
+ * So the result, rounded to the decimals of the input, is within one unit of its last decimal.
+ */
+
+type FixedFormat = FixedNumber["format"];
+
+/**
+ * "down": toward zero
+ * "up": away from zero
+ * "floor": toward negative infinity
+ * "ceil": toward positive infinity
+ * "nearest": to the nearest, halves away from zero
+ */
+export type RoundingMode = "down" | "up" | "floor" | "ceil" | "nearest";
 
 const ZERO = FixedNumber.from(0);
-const ONE = FixedNumber.from(1);
-const TWO = FixedNumber.from(2);
-const NEGATIVE_ONE = FixedNumber.from(-1);
-
-export const pow = (inputNumber: FixedNumber, exponentNumber: number): FixedNumber => {
-  // Handle special cases
-  if (exponentNumber === 0) {
-    return ONE;
-  } else if (exponentNumber === 1) {
-    return inputNumber;
+
+/**
+ * ln(2) to more than the 80 decimals of the most precise format
+ */
+const LN2 = "0.69314718055994530941723212145817656807550013436025525412068000949339362196969471560586332699641868";
+
+const ten = (exponent: number): BigNumber => BigNumber.from(10).pow(exponent);
+
+/**
+ * @returns the integer value, with the given decimals, rounded to newDecimals
+ */
+const rescale = (value: BigNumber, decimals: number, newDecimals: number, mode: RoundingMode): BigNumber => {
+  if (newDecimals >= decimals) {
+    return value.mul(ten(newDecimals - decimals));
+  }
+  const divisor = ten(decimals - newDecimals);
+  // truncated toward zero, the remainder has the sign of the value
+  const quotient = value.div(divisor);
+  const remainder = value.mod(divisor);
+  if (remainder.isZero()) {
+    return quotient;
   }
+  const awayFromZero = value.isNegative() ? quotient.sub(1) : quotient.add(1);
+  switch (mode) {
+    case "down":
+      return quotient;
+    case "up":
+      return awayFromZero;
+    case "floor":
+      return value.isNegative() ? awayFromZero : quotient;
+    case "ceil":
+      return value.isNegative() ? quotient : awayFromZero;
+    case "nearest":
+      return remainder.abs().mul(2).gte(divisor) ? awayFromZero : quotient;
+  }
+};
 
-  let result = ONE;
+/**
+ * @returns the integer value of num in units of its last decimal
+ */
+const toRaw = (num: FixedNumber): BigNumber => parseUnits(num.toString(), num.format.decimals);
 
-  // Compute the power using repeated multiplication
-  if (exponentNumber > 0) {
-    for (let i = 0; i < exponentNumber; i++) {
-      result = result.mulUnsafe(inputNumber);
-    }
-  } else {
-    // Negative exponent, compute reciprocal
-    const reciprocalBase = ONE.divUnsafe(inputNumber);
-    for (let i = 0; i > exponentNumber; i--) {
-      result = result.mulUnsafe(reciprocalBase);
-    }
+const fromRaw = (value: BigNumber, format: FixedFormat): FixedNumber =>
+  FixedNumber.fromValue(value, format.decimals, format);
+
+/**
+ * @param value an integer with the given decimals, such as a token amount in wei
+ * @param format of the result, default "fixed" (fixed128x18)
+ * @param mode how to round when the format has fewer decimals
+ */
+export const fromBigNumber = (
+  value: BigNumber,
+  decimals = 18,
+  format: FixedFormat | string = "fixed",
+  mode: RoundingMode = "nearest",
+): FixedNumber => {
+  const fixedFormat = ZERO.toFormat(format).format;
+  return fromRaw(rescale(value, decimals, fixedFormat.decimals, mode), fixedFormat);
+};
+
+/**
+ * @param decimals of the result, default 0, for an integer
+ * @returns the value of num as an integer with the given decimals, such as a token amount in wei given 18
+ */
+export const toBigNumber = (num: FixedNumber, decimals = 0, mode: RoundingMode = "nearest"): BigNumber => {
+  return rescale(toRaw(num), num.format.decimals, decimals, mode);
+};
+
+/**
+ * @param value such as "-1.25", "0.000000000000000001" or "1e-7", or a number, as given by its toString()
+ * @param format of the result, default "fixed" (fixed128x18)
+ * @param mode how to round when the value has more decimals than the format
+ */
+export const fromDecimalString = (
+  value: string | number,
+  format: FixedFormat | string = "fixed",
+  mode: RoundingMode = "nearest",
+): FixedNumber => {
+  const match = /^(-?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(value.toString().trim());
+  if (!match || !(match[2] || match[3])) {
+    throw new Error(`not a decimal number: ${value}`);
+  }
+  const [, sign, whole, fraction = "", exponent = "0"] = match;
+  const digits = BigNumber.from(`${sign}${whole || "0"}${fraction}`);
+  const decimals = fraction.length - Number(exponent);
+  const fixedFormat = ZERO.toFormat(format).format;
+  return fromRaw(
+    decimals >= 0
+      ? rescale(digits, decimals, fixedFormat.decimals, mode)
+      : rescale(digits.mul(ten(-decimals)), 0, fixedFormat.decimals, mode),
+    fixedFormat,
+  );
+};
+
+/**
+ * @param decimals how many decimals to keep, default all of those of the format
+ * @returns such as "1.5", always with a decimal point
+ */
+export const toDecimalString = (num: FixedNumber, decimals?: number, mode: RoundingMode = "nearest"): string => {
+  if (decimals === undefined) {
+    return num.toString();
   }
+  return formatUnits(toBigNumber(num, decimals, mode), decimals);
+};
 
-  return result;
+/**
+ * @returns num rounded to the given decimals, in the same format
+ */
+export const round = (num: FixedNumber, decimals: number, mode: RoundingMode = "nearest"): FixedNumber => {
+  const { decimals: formatDecimals } = num.format;
+  if (decimals >= formatDecimals) {
+    return num;
+  }
+  return fromRaw(rescale(toBigNumber(num, decimals, mode), decimals, formatDecimals, mode), num.format);
 };
 
-const reverseSign = (num: FixedNumber): FixedNumber => {
-  return num.mulUnsafe(NEGATIVE_ONE);
+/**
+ * @returns negative when num1 < num2, zero when equal, positive when num1 > num2.  The numbers may have different formats.
+ */
+export const compare = (num1: FixedNumber, num2: FixedNumber): number => {
+  const decimals = Math.max(num1.format.decimals, num2.format.decimals);
+  const difference = parseUnits(num1.toString(), decimals).sub(parseUnits(num2.toString(), decimals));
+  return difference.isZero() ? 0 : difference.isNegative() ? -1 : 1;
 };
 
-const abs = (num: FixedNumber): FixedNumber => {
-  return num.isNegative() ? reverseSign(num) : num;
+/**
+ * is num1 greater than num2
+ */
+export const gt = (num1: FixedNumber, num2: FixedNumber): boolean => compare(num1, num2) > 0;
+
+export const gte = (num1: FixedNumber, num2: FixedNumber): boolean => compare(num1, num2) >= 0;
+
+/**
+ * is num1 less than num2
+ */
+export const lt = (num1: FixedNumber, num2: FixedNumber): boolean => compare(num1, num2) < 0;
+
+export const lte = (num1: FixedNumber, num2: FixedNumber): boolean => compare(num1, num2) <= 0;
+
+export const eq = (num1: FixedNumber, num2: FixedNumber): boolean => compare(num1, num2) === 0;
+
+export const min = (num: FixedNumber, ...nums: Array<FixedNumber>): FixedNumber =>
+  nums.reduce((least, next) => (lt(next, least) ? next : least), num);
+
+export const max = (num: FixedNumber, ...nums: Array<FixedNumber>): FixedNumber =>
+  nums.reduce((greatest, next) => (gt(next, greatest) ? next : greatest), num);
+
+export const abs = (num: FixedNumber): FixedNumber => {
+  return num.isNegative() ? num.mulUnsafe(FixedNumber.from(-1, num.format)) : num;
 };
 
-const gt = (num1: FixedNumber, num2: FixedNumber): boolean => {
+/**
+ * the format ln, exp, pow and sqrt work in, see the error bound above
+ */
+const getPreciseFormat = (format: FixedFormat): string => `fixed512x${Math.min(80, Math.max(36, format.decimals * 2))}`;
+
+/**
+ * one unit of the last decimal of the format
+ */
+const getEpsilon = (format: string): FixedNumber => fromRaw(BigNumber.from(1), ZERO.toFormat(format).format);
+
+const toPrecise = (num: FixedNumber, preciseFormat: string): FixedNumber =>
+  fromDecimalString(num.toString(), preciseFormat);
+
+const fromPrecise = (num: FixedNumber, format: FixedFormat): FixedNumber =>
+  fromDecimalString(num.toString(), format, "nearest");
+
+/**
+ * natural logarithm, in the precise format
+ */
+const lnPrecise = (num: FixedNumber): FixedNumber => {
+  const format = num.format.name;
+  const one = FixedNumber.from(1, format);
+  const two = FixedNumber.from(2, format);
+  const epsilon = getEpsilon(format);
+  if (num.isNegative() || num.isZero()) {
+    throw new Error("attempting to compute the logarithm of a number that is not positive");
+  }
+  /**
+   * num = mantissa * 2^exponent, with mantissa in [1, 2)
+   */
+  let mantissa = num;
+  let exponent = 0;
+  while (gte(mantissa, two)) {
+    mantissa = mantissa.divUnsafe(two);
+    ++exponent;
+  }
+  while (lt(mantissa, one)) {
+    mantissa = mantissa.mulUnsafe(two);
+    --exponent;
+  }
   /**
-   * is num1 greater than num2
+   * ln(mantissa) = 2 * atanh(z) = 2 * (z + z^3/3 + z^5/5 + ...), where z = (mantissa - 1) / (mantissa + 1) < 1/3
    */
-  return num2.subUnsafe(num1).isNegative();
+  const z = mantissa.subUnsafe(one).divUnsafe(mantissa.addUnsafe(one));
+  const zSquared = z.mulUnsafe(z);
+  let power = z;
+  let sum = z;
+  for (let n = 3; ; n += 2) {
+    power = power.mulUnsafe(zSquared);
+    const term = power.divUnsafe(FixedNumber.from(n, format));
+    if (lt(term, epsilon)) {
+      break;
+    }
+    sum = sum.addUnsafe(term);
+  }
+  const ln2 = fromDecimalString(LN2, format);
+  return sum.mulUnsafe(two).addUnsafe(ln2.mulUnsafe(FixedNumber.from(exponent, format)));
 };
 
-const lt = (num1: FixedNumber, num2: FixedNumber): boolean => {
+/**
+ * e to the power of num, in the precise format
+ */
+const expPrecise = (num: FixedNumber): FixedNumber => {
+  const format = num.format.name;
+  const one = FixedNumber.from(1, format);
+  const two = FixedNumber.from(2, format);
+  const epsilon = getEpsilon(format);
+  const ln2 = fromDecimalString(LN2, format);
   /**
-   * is num1 less than num2
+   * num = exponent * ln(2) + remainder, with |remainder| <= ln(2) / 2
    */
-  return num1.subUnsafe(num2).isNegative();
+  const exponent = Math.round(num.divUnsafe(ln2).toUnsafeFloat());
+  const remainder = num.subUnsafe(ln2.mulUnsafe(FixedNumber.from(exponent, format)));
+  let term = one;
+  let sum = one;
+  for (let n = 1; gte(abs(term), epsilon); ++n) {
+    term = term.mulUnsafe(remainder).divUnsafe(FixedNumber.from(n, format));
+    sum = sum.addUnsafe(term);
+  }
+  for (let i = 0; i < Math.abs(exponent); ++i) {
+    sum = exponent > 0 ? sum.mulUnsafe(two) : sum.divUnsafe(two);
+  }
+  return sum;
+};
+
+/**
+ * natural logarithm, of a number greater than zero
+ */
+export const ln = (num: FixedNumber): FixedNumber => {
+  return fromPrecise(lnPrecise(toPrecise(num, getPreciseFormat(num.format))), num.format);
+};
+
+/**
+ * e to the power of num
+ */
+export const exp = (num: FixedNumber): FixedNumber => {
+  return fromPrecise(expPrecise(toPrecise(num, getPreciseFormat(num.format))), num.format);
+};
+
+/**
+ * @param exponentNumber a fractional exponent requires inputNumber to be zero or greater
+ */
+export const pow = (inputNumber: FixedNumber, exponentNumber: number | FixedNumber): FixedNumber => {
+  const exponent =
+    typeof exponentNumber === "number" ? fromDecimalString(exponentNumber, inputNumber.format) : exponentNumber;
+
+  if (!eq(round(exponent, 0), exponent)) {
+    if (inputNumber.isZero() && !exponent.isNegative()) {
+      return inputNumber;
+    }
+    const preciseFormat = getPreciseFormat(inputNumber.format);
+    return fromPrecise(
+      expPrecise(lnPrecise(toPrecise(inputNumber, preciseFormat)).mulUnsafe(toPrecise(exponent, preciseFormat))),
+      inputNumber.format,
+    );
+  }
+
+  const one = FixedNumber.from(1, inputNumber.format);
+  const integerExponent = toBigNumber(exponent).toNumber();
+  let result = one;
+
+  // Compute the power by repeated squaring
+  let base = inputNumber;
+  for (let remaining = Math.abs(integerExponent); remaining > 0; remaining = Math.floor(remaining / 2)) {
+    if (remaining % 2) {
+      result = result.mulUnsafe(base);
+    }
+    base = base.mulUnsafe(base);
+  }
+
+  // A negative exponent takes the reciprocal last, so the rounding of 1/inputNumber is not raised to the power
+  return integerExponent < 0 ? one.divUnsafe(result) : result;
 };
 
+/**
+ * Newton's method, stopping once the guess stops decreasing by at least the error bound
+ */
 export const sqrt = (inputNumber: FixedNumber): FixedNumber => {
   if (inputNumber.isZero()) {
-    return ZERO;
+    return inputNumber;
   }
 
   if (inputNumber.isNegative()) {
     throw new Error("attempting to compute square root of a negative number");
   }
 
-  // Adjust the scaling factor as needed
-  const scaledNumber = inputNumber.mulUnsafe(pow(FixedNumber.from("10"), 4));
-
-  let guess = scaledNumber;
+  const preciseFormat = getPreciseFormat(inputNumber.format);
+  const epsilon = getEpsilon(preciseFormat);
+  const two = FixedNumber.from(2, preciseFormat);
+  const input = toPrecise(inputNumber, preciseFormat);
 
-  const maxIterations = 100; // Adjust the number of iterations based on desired precision
-
-  for (let i = 0; i < maxIterations; i++) {
-    const quotient = scaledNumber.divUnsafe(guess);
-    guess = guess.addUnsafe(quotient).divUnsafe(TWO);
+  /**
+   * start above the root, after which every step decreases the guess toward it
+   */
+  let guess = fromDecimalString(Math.sqrt(input.toUnsafeFloat()) * 1.01 + 1e-18, preciseFormat);
+  for (;;) {
+    const next = guess.addUnsafe(input.divUnsafe(guess)).divUnsafe(two);
+    if (lt(guess.subUnsafe(next), epsilon)) {
+      break;
+    }
+    guess = next;
   }
 
-  return guess.divUnsafe(pow(FixedNumber.from("10"), 2));
-};
-
-export const toBigNumber = (fn: FixedNumber): BigNumber => {
-  return BigNumber.from(fn.round(0).toFormat("fixed32x0").toString());
+  return fromPrecise(guess, inputNumber.format);
 };
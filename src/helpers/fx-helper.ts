@@ -0,0 +1,69 @@
+import { logMessage } from "./errors-helper";
+import { IPriceSource } from "./price-helper";
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const axios = require("axios");
+
+/**
+ * The foreign exchange rate sources the kG price can come from, see kg-price-service
+ *  "open-er-api": https://www.exchangerate-api.com/docs/free
+ *  "currency-api": https://github.com/fawazahmed0/exchange-api
+ */
+export type FxSourceName = "open-er-api" | "currency-api";
+
+const logPrefix = "FX Helper";
+
+/**
+ * @param units how many of the currency one USD buys
+ * @returns $USD price of one unit of the currency
+ */
+const toUsdPrice = (units: unknown, currency: string): number => {
+  if (typeof units !== "number" || !(units > 0)) {
+    throw new Error(`no USD/${currency} rate in the response`);
+  }
+  return 1 / units;
+};
+
+const getOpenErApiPrice = (currency: string): Promise<number> => {
+  logMessage(logPrefix, `fetching from open.er-api.com: USD/${currency}`);
+
+  return (
+    axios
+      .get("https://open.er-api.com/v6/latest/USD")
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .then((response: any) => toUsdPrice(response.data.rates?.[currency], currency))
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .catch((ex: any) => {
+        // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
+        throw new Error(`rate not found for currency: ${currency}, ex: ${ex.message}`);
+      })
+  );
+};
+
+const getCurrencyApiPrice = (currency: string): Promise<number> => {
+  logMessage(logPrefix, `fetching from currency-api: USD/${currency}`);
+
+  return (
+    axios
+      .get("https://cdn.jsdelivr.net/npm/@fawazahmed0/currency-api@latest/v1/currencies/usd.json")
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .then((response: any) => toUsdPrice(response.data.usd?.[currency.toLowerCase()], currency))
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .catch((ex: any) => {
+        // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
+        throw new Error(`rate not found for currency: ${currency}, ex: ${ex.message}`);
+      })
+  );
+};
+
+/**
+ * @param currency ISO 4217 code, such as "ANG"
+ * @returns a source of the $USD price of one unit of the currency
+ */
+export const createFxPriceSource = (sourceName: FxSourceName, currency: string): IPriceSource => {
+  return {
+    name: sourceName,
+    getPrice: (): Promise<number> =>
+      sourceName === "open-er-api" ? getOpenErApiPrice(currency) : getCurrencyApiPrice(currency),
+  };
+};
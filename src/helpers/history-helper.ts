@@ -0,0 +1,295 @@
+import { environment } from "../globals";
+
+import { IAutoRelayHandler } from "./abi-helper";
+import { logMessage } from "./errors-helper";
+import { IMetric } from "./metrics-helper";
+import { IRunReport, RunStatus } from "./report-helper";
+import { getRunState } from "./run-helper";
+import { getStorage, IKeyValueStore } from "./storage-helper";
+import { TransactionStatus } from "./tracker-helper";
+
+import fs from "fs";
+
+/**
+ * A transaction sent, or in dry-run mode planned, during a run
+ */
+export interface ISnapshotTransaction {
+  /**
+   * id of the service in the services registry, or its name when it has no id
+   */
+  service: string;
+  contractName: string;
+  method: string;
+  rationale: string;
+  /**
+   * not sent, the run was a dry run
+   */
+  planned: boolean;
+  hash?: string;
+  outcome?: TransactionStatus;
+}
+
+/**
+ * What one run read, computed and did
+ */
+export interface IRunSnapshot {
+  runId: string;
+  status: RunStatus;
+  network?: string;
+  dryRun: boolean;
+  /**
+   * ISO 8601
+   */
+  startedAt: string;
+  durationMs: number;
+  /**
+   * the numeric inputs of each service, as "<service id>.<input>", such as "floor-ceiling.backingRatio",
+   * and the gauges, as "<metric>" or "<metric>{<labels>}", such as 'kolektivo_relayer_balance{token="kCUR"}'
+   */
+  values: Record<string, number>;
+  transactions: Array<ISnapshotTransaction>;
+}
+
+export interface IHistoryFilter {
+  /**
+   * only runs that started at or after this
+   */
+  since?: Date;
+  /**
+   * only runs that started before this
+   */
+  until?: Date;
+  network?: string;
+  status?: RunStatus;
+}
+
+/**
+ * Where the run snapshots are kept
+ */
+export interface IHistoryStore {
+  append(snapshot: IRunSnapshot): Promise<void>;
+  /**
+   * @returns the matching snapshots, oldest first
+   */
+  read(filter?: IHistoryFilter): Promise<Array<IRunSnapshot>>;
+}
+
+const HISTORY_STORAGE_KEY = "runHistory";
+
+const matchesFilter = (snapshot: IRunSnapshot, filter: IHistoryFilter): boolean => {
+  const startedAt = Date.parse(snapshot.startedAt);
+  return (
+    (!filter.since || startedAt >= filter.since.getTime()) &&
+    (!filter.until || startedAt < filter.until.getTime()) &&
+    (!filter.network || snapshot.network === filter.network) &&
+    (!filter.status || snapshot.status === filter.status)
+  );
+};
+
+/**
+ * An append-only file with one snapshot per line, for running locally
+ */
+export const createJsonlHistoryStore = (path: string): IHistoryStore => {
+  return {
+    append: (snapshot: IRunSnapshot): Promise<void> => {
+      fs.appendFileSync(path, `${JSON.stringify(snapshot)}\n`);
+      return Promise.resolve();
+    },
+    read: (filter: IHistoryFilter = {}): Promise<Array<IRunSnapshot>> => {
+      if (!fs.existsSync(path)) {
+        return Promise.resolve([]);
+      }
+      const snapshots = fs
+        .readFileSync(path, "utf8")
+        .split("\n")
+        .filter((line) => line.trim().length)
+        .map((line) => JSON.parse(line) as IRunSnapshot);
+      return Promise.resolve(snapshots.filter((snapshot) => matchesFilter(snapshot, filter)));
+    },
+  };
+};
+
+/**
+ * The latest snapshots, as one value in the key-value store, for the Autotask, which has no lasting file system
+ *
+ * @param storage
+ * @param maxSnapshots older snapshots are dropped beyond this many, to keep within the store's size limits
+ */
+export const createKeyValueHistoryStore = (storage: IKeyValueStore, maxSnapshots: number): IHistoryStore => {
+  const readAll = async (): Promise<Array<IRunSnapshot>> => {
+    const json = await storage.get(HISTORY_STORAGE_KEY);
+    return json ? (JSON.parse(json) as Array<IRunSnapshot>) : [];
+  };
+
+  return {
+    append: async (snapshot: IRunSnapshot): Promise<void> => {
+      const snapshots = [...(await readAll()), snapshot].slice(-maxSnapshots);
+      await storage.put(HISTORY_STORAGE_KEY, JSON.stringify(snapshots));
+    },
+    read: async (filter: IHistoryFilter = {}): Promise<Array<IRunSnapshot>> => {
+      return (await readAll()).filter((snapshot) => matchesFilter(snapshot, filter));
+    },
+  };
+};
+
+/**
+ * Set up the history of the current run.  Must be called after the storage is initialized.
+ *
+ * @param event
+ * @param filePath the JSONL file, when running locally
+ * @param maxSnapshots how many snapshots to keep in the Autotask's key-value store
+ * @param client optionally supply your own store
+ */
+export const initializeHistory = (
+  event: IAutoRelayHandler,
+  filePath: string,
+  maxSnapshots: number,
+  client?: IHistoryStore,
+): void => {
+  const runState = getRunState();
+  if (!runState) {
+    throw new Error("history can only be initialized within a run");
+  }
+  if (client) {
+    runState.history = client;
+  } else if (environment.runningLocally || !event.kvstoreARN) {
+    logMessage("History Helper", `using local history file: ${filePath}`);
+    runState.history = createJsonlHistoryStore(filePath);
+  } else {
+    runState.history = createKeyValueHistoryStore(getStorage(), maxSnapshots);
+  }
+};
+
+export const getHistoryStore = (): IHistoryStore => {
+  const historyStore = getRunState()?.history;
+  if (!historyStore) {
+    throw new Error("history has not been initialized");
+  }
+  return historyStore;
+};
+
+/**
+ * as it appears in OpenMetrics text, to tell apart the samples of a metric
+ */
+const metricSampleKey = (metric: IMetric, labels: Record<string, string>): string => {
+  const entries = Object.entries(labels);
+  return entries.length
+    ? `${metric.name}{${entries.map(([key, value]) => `${key}="${value}"`).join(",")}}`
+    : metric.name;
+};
+
+/**
+ * @param report a finished run report
+ */
+export const createSnapshot = (report: IRunReport): IRunSnapshot => {
+  const values: Record<string, number> = {};
+  const transactions: Array<ISnapshotTransaction> = [];
+
+  for (const service of report.services) {
+    const serviceKey = service.id ?? service.name;
+    for (const [name, value] of Object.entries(service.inputs)) {
+      if (typeof value === "number") {
+        values[`${serviceKey}.${name}`] = value;
+      }
+    }
+    for (const transaction of service.transactions) {
+      transactions.push({
+        service: serviceKey,
+        contractName: transaction.contractName,
+        method: transaction.method,
+        rationale: transaction.rationale,
+        planned: false,
+        hash: transaction.finalHash ?? transaction.hash,
+        outcome: transaction.outcome,
+      });
+    }
+  }
+
+  for (const action of report.plannedActions ?? []) {
+    const service = report.services.find((candidate) => candidate.name === action.serviceName);
+    transactions.push({
+      service: service?.id ?? action.serviceName,
+      contractName: action.contractName,
+      method: action.method,
+      rationale: action.rationale,
+      planned: true,
+    });
+  }
+
+  for (const metric of report.metrics ?? []) {
+    if (metric.type === "gauge") {
+      for (const sample of metric.samples) {
+        values[metricSampleKey(metric, sample.labels)] = sample.value;
+      }
+    }
+  }
+
+  return {
+    runId: report.runId ?? "",
+    status: report.status,
+    network: report.network,
+    dryRun: report.dryRun,
+    startedAt: report.startedAt,
+    durationMs: report.durationMs,
+    values,
+    transactions,
+  };
+};
+
+export const recordSnapshot = async (report: IRunReport): Promise<void> => {
+  await getHistoryStore().append(createSnapshot(report));
+};
+
+export interface ISeriesPoint {
+  startedAt: string;
+  value: number;
+}
+
+/**
+ * @param snapshots
+ * @param key see IRunSnapshot.values
+ * @returns the value from each snapshot that has it
+ */
+export const getSeries = (snapshots: Array<IRunSnapshot>, key: string): Array<ISeriesPoint> => {
+  return snapshots
+    .filter((snapshot) => key in snapshot.values)
+    .map((snapshot) => ({ startedAt: snapshot.startedAt, value: snapshot.values[key] }));
+};
+
+export interface ITransactionFilter {
+  /**
+   * service id, such as "mento"
+   */
+  service?: string;
+  contractName?: string;
+  method?: string;
+  /**
+   * include the transactions of dry runs
+   */
+  includePlanned?: boolean;
+}
+
+export interface IHistoryTransaction extends ISnapshotTransaction {
+  runId: string;
+  startedAt: string;
+}
+
+/**
+ * @returns the matching transactions of the snapshots, oldest first
+ */
+export const getTransactions = (
+  snapshots: Array<IRunSnapshot>,
+  filter: ITransactionFilter = {},
+): Array<IHistoryTransaction> => {
+  return snapshots.flatMap((snapshot) =>
+    snapshot.transactions
+      .filter(
+        (transaction) =>
+          (!filter.service || transaction.service === filter.service) &&
+          (!filter.contractName || transaction.contractName === filter.contractName) &&
+          (!filter.method || transaction.method === filter.method) &&
+          (filter.includePlanned || !transaction.planned),
+      )
+      .map((transaction) => ({ ...transaction, runId: snapshot.runId, startedAt: snapshot.startedAt })),
+  );
+};
@@ -0,0 +1,59 @@
+import { logMessage, logWarning } from "./errors-helper";
+import { getStorage, getStoredJson, putStoredJson } from "./storage-helper";
+
+const LOCK_KEY = "runLock";
+
+const logPrefix = "Lock Helper";
+
+interface IRunLock {
+  runId: string;
+  /**
+   * milliseconds since the epoch, after which the lock is considered abandoned by a crashed run
+   */
+  expiresAt: number;
+}
+
+/**
+ * Take the run lock in the key-value store, unless another run holds an unexpired lock.
+ *
+ * The key-value stores can't atomically compare-and-set, so this is best effort: the lock is written
+ * and then read back, which catches two runs that start at nearly the same time.
+ *
+ * @param runId
+ * @param ttlSeconds how long the lock is held unless released, should be longer than a run can take
+ * @returns true when this run now holds the lock
+ */
+export const acquireRunLock = async (runId: string, ttlSeconds: number): Promise<boolean> => {
+  const now = Date.now();
+  const existing = await getStoredJson<IRunLock>(LOCK_KEY);
+
+  if (existing && existing.runId !== runId) {
+    if (existing.expiresAt > now) {
+      logMessage(logPrefix, `run ${existing.runId} holds the lock until ${new Date(existing.expiresAt).toISOString()}`);
+      return false;
+    }
+    logWarning(
+      logPrefix,
+      `the lock of run ${existing.runId} expired at ${new Date(existing.expiresAt).toISOString()}, taking it over`,
+    );
+  }
+
+  await putStoredJson<IRunLock>(LOCK_KEY, { runId, expiresAt: now + ttlSeconds * 1000 });
+
+  const written = await getStoredJson<IRunLock>(LOCK_KEY);
+  if (written?.runId !== runId) {
+    logMessage(logPrefix, `run ${written?.runId ?? "unknown"} took the lock first`);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Release the run lock, but only if this run still holds it
+ */
+export const releaseRunLock = async (runId: string): Promise<void> => {
+  const existing = await getStoredJson<IRunLock>(LOCK_KEY);
+  if (existing?.runId === runId) {
+    await getStorage().del(LOCK_KEY);
+  }
+};
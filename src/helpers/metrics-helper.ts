@@ -0,0 +1,206 @@
+import { logMessage, logWarning } from "./errors-helper";
+import { IRunReport } from "./report-helper";
+import { getRunState } from "./run-helper";
+import { getStoredJson, putStoredJson } from "./storage-helper";
+
+import fs from "fs";
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const axios = require("axios");
+
+/**
+ * "gauge": the value as of this run
+ * "counter": a running total across runs, kept in the key-value store
+ */
+export type MetricType = "gauge" | "counter";
+
+export type MetricLabels = Record<string, string>;
+
+export interface IMetricSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+export interface IMetric {
+  name: MetricName;
+  type: MetricType;
+  help: string;
+  samples: Array<IMetricSample>;
+}
+
+interface IMetricDefinition {
+  type: MetricType;
+  help: string;
+}
+
+const METRICS = {
+  kolektivo_cusd_price_usd: { type: "gauge", help: "$USD price of cUSD, as reported to the cUSD Oracle" },
+  kolektivo_kg_price_usd: { type: "gauge", help: "$USD price of kG the services ran with" },
+  kolektivo_kcur_spot_price_usd: { type: "gauge", help: "$USD spot price of kCUR in the kCUR Pool" },
+  kolektivo_kcur_price_usd: { type: "gauge", help: "$USD price of kCUR the services ran with" },
+  kolektivo_backing_ratio: { type: "gauge", help: "Reserve backing ratio" },
+  kolektivo_kcur_floor_usd: { type: "gauge", help: "$USD floor price of kCUR" },
+  kolektivo_kcur_ceiling_usd: { type: "gauge", help: "$USD ceiling price of kCUR" },
+  kolektivo_ceiling_multiplier: { type: "gauge", help: "Reserve ceiling multiplier" },
+  kolektivo_mento_kcur_total_value_usd: { type: "gauge", help: "$USD value of the kCUR in the Mento Reserve" },
+  kolektivo_mento_kg_total_value_usd: { type: "gauge", help: "$USD value of the kG total supply" },
+  kolektivo_relayer_balance: { type: "gauge", help: "Relayer token balance" },
+  kolektivo_run_duration_seconds: { type: "gauge", help: "how long the last run took" },
+  kolektivo_last_run_timestamp_seconds: { type: "gauge", help: "when the last run started" },
+  kolektivo_runs: { type: "counter", help: "runs, by status" },
+  kolektivo_actions: { type: "counter", help: "transactions sent, by service" },
+  kolektivo_service_failures: { type: "counter", help: "service failures, by service" },
+} as const;
+
+export type MetricName = keyof typeof METRICS;
+
+const COUNTERS_STORAGE_KEY = "metricsCounters";
+
+const logPrefix = "Metrics Helper";
+
+/**
+ * identifies a sample within its metric
+ */
+const labelsKey = (labels: MetricLabels): string => {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((key) => [key, labels[key]]),
+  );
+};
+
+const findSample = (name: MetricName, labels: MetricLabels): IMetricSample | undefined => {
+  const metrics = getRunState()?.metrics;
+  if (!metrics) {
+    return undefined;
+  }
+  const definition: IMetricDefinition = METRICS[name];
+  const metric = (metrics[name] ??= { name, type: definition.type, help: definition.help, samples: [] });
+  const key = labelsKey(labels);
+  let sample = metric.samples.find((candidate) => labelsKey(candidate.labels) === key);
+  if (!sample) {
+    sample = { labels, value: 0 };
+    metric.samples.push(sample);
+  }
+  return sample;
+};
+
+/**
+ * Load the counters from past runs.  Must be called within a run, after the storage is initialized.
+ */
+export const initializeMetrics = async (): Promise<void> => {
+  const runState = getRunState();
+  if (runState) {
+    runState.metrics = (await getStoredJson<Partial<Record<MetricName, IMetric>>>(COUNTERS_STORAGE_KEY)) ?? {};
+  }
+};
+
+/**
+ * Set a gauge for this run.  Does nothing when not within a run.
+ */
+export const setGauge = (name: MetricName, value: number, labels: MetricLabels = {}): void => {
+  const sample = findSample(name, labels);
+  if (sample) {
+    sample.value = value;
+  }
+};
+
+/**
+ * Add to a counter.  Does nothing when not within a run.
+ */
+export const incrementCounter = (name: MetricName, labels: MetricLabels = {}, amount = 1): void => {
+  const sample = findSample(name, labels);
+  if (sample) {
+    sample.value += amount;
+  }
+};
+
+/**
+ * @returns the metrics of the current run, in the order they are defined, for JSON
+ */
+export const getMetrics = (): Array<IMetric> => {
+  const metrics = getRunState()?.metrics ?? {};
+  return (Object.keys(METRICS) as Array<MetricName>)
+    .map((name) => metrics[name])
+    .filter((metric): metric is IMetric => !!metric?.samples.length);
+};
+
+const formatLabels = (labels: MetricLabels): string => {
+  const entries = Object.entries(labels);
+  if (!entries.length) {
+    return "";
+  }
+  return `{${entries
+    .map(([key, value]) => `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`)
+    .join(",")}}`;
+};
+
+/**
+ * @returns the metrics in the OpenMetrics text format, see https://openmetrics.io
+ */
+export const formatOpenMetrics = (metrics: Array<IMetric>): string => {
+  const lines: Array<string> = [];
+  for (const metric of metrics) {
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    const sampleName = metric.type === "counter" ? `${metric.name}_total` : metric.name;
+    for (const sample of metric.samples) {
+      lines.push(`${sampleName}${formatLabels(sample.labels)} ${sample.value}`);
+    }
+  }
+  lines.push("# EOF");
+  return `${lines.join("\n")}\n`;
+};
+
+export interface IPublishMetricsOptions {
+  /**
+   * where to write the OpenMetrics text, only when running locally
+   */
+  filePath?: string;
+  /**
+   * where to POST the OpenMetrics text, such as a Prometheus Pushgateway
+   */
+  pushUrl?: string;
+}
+
+/**
+ * Stamp the run metrics, save the counters for the next run and export the metrics.
+ * Failing to export is logged and does not fail the run.
+ *
+ * @returns the metrics, for the run report
+ */
+export const publishMetrics = async (report: IRunReport, options: IPublishMetricsOptions): Promise<Array<IMetric>> => {
+  setGauge("kolektivo_run_duration_seconds", report.durationMs / 1000);
+  setGauge("kolektivo_last_run_timestamp_seconds", Math.floor(Date.parse(report.startedAt) / 1000));
+  incrementCounter("kolektivo_runs", { status: report.status });
+
+  const metrics = getMetrics();
+
+  const counters = Object.fromEntries(
+    metrics.filter((metric) => metric.type === "counter").map((metric) => [metric.name, metric]),
+  );
+  await putStoredJson(COUNTERS_STORAGE_KEY, counters);
+
+  const text = formatOpenMetrics(metrics);
+
+  if (options.filePath) {
+    try {
+      fs.writeFileSync(options.filePath, text);
+      logMessage(logPrefix, `wrote ${metrics.length} metrics to ${options.filePath}`);
+    } catch (ex) {
+      logWarning(logPrefix, `failed writing metrics to ${options.filePath}: ${(ex as Error).message}`);
+    }
+  }
+
+  if (options.pushUrl) {
+    try {
+      await axios.post(options.pushUrl, text, {
+        headers: { "Content-Type": "application/openmetrics-text; version=1.0.0; charset=utf-8" },
+      });
+    } catch (ex) {
+      logWarning(logPrefix, `failed pushing metrics: ${(ex as Error).message}`);
+    }
+  }
+
+  return metrics;
+};
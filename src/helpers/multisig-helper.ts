@@ -0,0 +1,138 @@
+import { environment } from "../globals";
+
+import { getChainId, getContractAbi, getContractAddress } from "./abi-helper";
+import { getConfig } from "./config-helper";
+import { logWarning } from "./errors-helper";
+import { notify, resolveCondition } from "./notifications-helper";
+import { recordInput } from "./report-helper";
+import { getRunState } from "./run-helper";
+import { formatArg } from "./transactions-helper";
+
+import { Interface } from "ethers/lib/utils";
+import fs from "fs";
+import path from "path";
+
+/**
+ * A write too large for the Relayer to make on its own, for the KolektivoMultiSig to make instead
+ */
+export interface IMultisigCall {
+  contractName: string;
+  method: string;
+  args: Array<unknown>;
+}
+
+/**
+ * The batch file the Safe Transaction Builder imports,
+ * see https://help.safe.global/en/articles/40795-transaction-builder
+ */
+export interface ISafeTransactionBatch {
+  version: "1.0";
+  chainId: string;
+  /**
+   * milliseconds since the epoch
+   */
+  createdAt: number;
+  meta: { name: string; description: string; createdFromSafeAddress: string };
+  transactions: Array<{ to: string; value: string; data: string; contractMethod: null; contractInputsValues: null }>;
+}
+
+export interface IMultisigProposal {
+  serviceName: string;
+  rationale: string;
+  /**
+   * the calls in the batch, readable
+   */
+  calls: Array<IMultisigCall & { contractAddress: string }>;
+  batch: ISafeTransactionBatch;
+  /**
+   * where the batch was written, only when running locally
+   */
+  filePath?: string;
+}
+
+/**
+ * @returns the multisig proposals of the current run
+ */
+export const getMultisigProposals = (): Array<IMultisigProposal> => {
+  return getRunState()?.multisigProposals ?? [];
+};
+
+const getConditionKey = (serviceName: string): string => `multisigProposal:${serviceName}`;
+
+/**
+ * Instead of sending them, turn the calls into a Safe transaction batch for the KolektivoMultiSig's signers to review
+ * and propose.  The batch is added to the run report, written to the proposals directory when running locally, and
+ * sent as a notification, once until the service acts within its limits again (see clearMultisigProposal).
+ *
+ * @param serviceName the service that wanted to make the calls
+ * @param calls made by the KolektivoMultiSig, in order
+ * @param rationale why the service wants to make the calls, and why the Relayer may not
+ */
+export const proposeToMultisig = (
+  serviceName: string,
+  calls: Array<IMultisigCall>,
+  rationale: string,
+): IMultisigProposal => {
+  const safeAddress = getContractAddress("KolektivoMultiSig");
+  const runState = getRunState();
+
+  const proposal: IMultisigProposal = {
+    serviceName,
+    rationale,
+    calls: calls.map((call) => ({
+      ...call,
+      contractAddress: getContractAddress(call.contractName),
+      args: call.args.map(formatArg),
+    })),
+    batch: {
+      version: "1.0",
+      chainId: getChainId().toString(),
+      createdAt: Date.now(),
+      meta: {
+        name: `${serviceName}: proposed by the Kolektivo Relayer`,
+        description: rationale,
+        createdFromSafeAddress: safeAddress,
+      },
+      transactions: calls.map((call) => ({
+        to: getContractAddress(call.contractName),
+        value: "0",
+        data: new Interface(getContractAbi(call.contractName)).encodeFunctionData(call.method, call.args),
+        contractMethod: null,
+        contractInputsValues: null,
+      })),
+    },
+  };
+
+  if (environment.runningLocally) {
+    const directory = getConfig().multisigProposalsDir;
+    fs.mkdirSync(directory, { recursive: true });
+    proposal.filePath = path.join(
+      directory,
+      `${runState?.runId ?? proposal.batch.createdAt}-${serviceName.replace(/\W+/g, "-")}.json`,
+    );
+    fs.writeFileSync(proposal.filePath, JSON.stringify(proposal.batch, undefined, 2));
+  }
+
+  runState?.multisigProposals.push(proposal);
+  recordInput(serviceName, "multisigProposal", proposal.calls);
+  logWarning(
+    serviceName,
+    `Proposing to the KolektivoMultiSig (${safeAddress}) instead of sending: ${proposal.calls
+      .map((call) => `${call.contractName}.${call.method}(${JSON.stringify(call.args)})`)
+      .join(", ")}: ${rationale}`,
+  );
+  notify(
+    "multisigProposal",
+    { serviceName, safeAddress, rationale, calls: proposal.calls, batch: proposal.batch },
+    getConditionKey(serviceName),
+  );
+
+  return proposal;
+};
+
+/**
+ * The service no longer needs the KolektivoMultiSig, resolving the notification of its last proposal
+ */
+export const clearMultisigProposal = (serviceName: string): void => {
+  resolveCondition(getConditionKey(serviceName));
+};
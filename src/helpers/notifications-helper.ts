@@ -1,38 +1,291 @@
-import { logMessage } from "./errors-helper";
+import { logError, logMessage, logWarning } from "./errors-helper";
+import { getRunState } from "./run-helper";
+import { getStoredJson, putStoredJson } from "./storage-helper";
+
+import fs from "fs";
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const axios = require("axios");
 
 export interface ISendNotification {
   channelAlias: string;
   subject: string;
   message: string;
 }
+/**
+ * Defender's notification client, supplied to the Autotask
+ */
 export interface INotificationClient {
   send: (params: ISendNotification) => void;
 }
 
-let notificationsClient: INotificationClient | undefined;
+export type NotificationSeverity = "info" | "warning" | "critical";
+
+export type NotificationSinkName = "defender" | "webhook" | "console" | "file";
+
+export interface INotification {
+  severity: NotificationSeverity;
+  subject: string;
+  message: string;
+  /**
+   * ISO 8601
+   */
+  timestamp: string;
+}
+
+/**
+ * A place notifications can be sent
+ */
+export interface INotificationSink {
+  name: NotificationSinkName;
+  send(notification: INotification): Promise<void>;
+}
+
+/**
+ * The parameters of each kind of notification, see TEMPLATES
+ */
+export interface INotificationParams {
+  serviceFailed: { serviceName: string; message: string };
+  fundingRequest: { relayerAddress: string; amounts: Array<{ tokenName: string; amount: string }> };
+  kGuilderPriceFallback: { reason: string; fallbackPrice: number };
+  cUsdPriceFallback: { reason: string; fallbackPrice: number };
+  multisigProposal: {
+    serviceName: string;
+    safeAddress: string;
+    rationale: string;
+    calls: Array<{ contractName: string; contractAddress: string; method: string; args: Array<unknown> }>;
+    batch: unknown;
+  };
+}
+
+export type NotificationKind = keyof INotificationParams;
+
+interface INotificationTemplate<P> {
+  severity: NotificationSeverity;
+  subject(params: P): string;
+  message(params: P): string;
+}
 
-export const initializeNotifications = (client?: INotificationClient) => {
-  notificationsClient = client;
+const TEMPLATES: { [K in NotificationKind]: INotificationTemplate<INotificationParams[K]> } = {
+  serviceFailed: {
+    severity: "critical",
+    subject: ({ serviceName }) => `A Kolektivo service has failed: ${serviceName}`,
+    message: ({ message }) => message,
+  },
+  fundingRequest: {
+    severity: "warning",
+    subject: () => "Funding request for the Kolektivo Relayer",
+    message: ({ relayerAddress, amounts }) =>
+      `Please send the Relayer (${relayerAddress}) ${amounts
+        .map(({ tokenName, amount }) => `${amount} ${tokenName}`)
+        .join(", ")}, to bring its balances up to their targets where swapping its other tokens could not`,
+  },
+  kGuilderPriceFallback: {
+    severity: "warning",
+    subject: () => "Kolektivo kG price sources unavailable",
+    message: ({ reason, fallbackPrice }) => `${reason}, valuing kG at the fallback price of ${fallbackPrice}`,
+  },
+  cUsdPriceFallback: {
+    severity: "warning",
+    subject: () => "Kolektivo cUSD price sources unavailable",
+    message: ({ reason, fallbackPrice }) =>
+      `${reason}, not reporting to the cUSD Oracle and valuing cUSD at the static price of ${fallbackPrice}`,
+  },
+  multisigProposal: {
+    severity: "warning",
+    subject: ({ serviceName }) => `Kolektivo MultiSig proposal from ${serviceName}`,
+    message: ({ safeAddress, rationale, calls, batch }) =>
+      `${rationale}.  The Relayer has not acted, please review and propose to the KolektivoMultiSig (${safeAddress}):\n${calls
+        .map(
+          (call, index) =>
+            `${index + 1}. ${call.contractName} (${call.contractAddress}).${call.method}(${JSON.stringify(call.args)})`,
+        )
+        .join("\n")}\nSafe Transaction Builder batch:\n${JSON.stringify(batch)}`,
+  },
 };
 
 /**
- * Send a notification to the given channel (see Defender Notification Channels)
- * @param message
- * @param context is an argument to the handler
+ * An ongoing condition that has been notified and not yet resolved
  */
-export const sendNotification = (subject: string, message: string, channel = "Kolektivo Notifications") => {
-  // is not set when running locally
-  if (notificationsClient) {
-    try {
-      notificationsClient.send({
-        channelAlias: channel,
-        subject: subject,
-        message: message,
-      });
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    } catch (ex: any) {
-      logMessage("Notifications Service", `failed sending a notification ${subject} : ${message}`);
-      throw new Error("Failed to send notification", ex.message);
+export interface IActiveCondition {
+  severity: NotificationSeverity;
+  subject: string;
+  /**
+   * ISO 8601
+   */
+  since: string;
+}
+
+const CONDITIONS_STORAGE_KEY = "notificationConditions";
+
+export interface INotificationOptions {
+  /**
+   * which sinks get which severities
+   */
+  routes: Record<NotificationSeverity, Array<NotificationSinkName>>;
+  /**
+   * not set when running locally
+   */
+  defenderClient?: INotificationClient;
+  defenderChannel: string;
+  /**
+   * Slack or Discord incoming webhook
+   */
+  webhookUrl?: string;
+  filePath: string;
+}
+
+export const createDefenderSink = (client: INotificationClient, channelAlias: string): INotificationSink => {
+  return {
+    name: "defender",
+    send: async (notification: INotification): Promise<void> => {
+      await Promise.resolve(
+        client.send({ channelAlias, subject: notification.subject, message: notification.message }),
+      );
+    },
+  };
+};
+
+/**
+ * Posts to a Slack-compatible incoming webhook, or a Discord webhook when the url is Discord's
+ */
+export const createWebhookSink = (url: string): INotificationSink => {
+  const isDiscord = /discord(app)?\.com/.test(url);
+  return {
+    name: "webhook",
+    send: async (notification: INotification): Promise<void> => {
+      const text = `[${notification.severity.toUpperCase()}] ${notification.subject}\n${notification.message}`;
+      await axios.post(url, isDiscord ? { content: text } : { text });
+    },
+  };
+};
+
+export const createConsoleSink = (): INotificationSink => {
+  return {
+    name: "console",
+    send: (notification: INotification): Promise<void> => {
+      const log =
+        notification.severity === "critical" ? logError : notification.severity === "warning" ? logWarning : logMessage;
+      log("Notification", `${notification.subject}: ${notification.message}`);
+      return Promise.resolve();
+    },
+  };
+};
+
+/**
+ * Appends each notification as a line of JSON
+ */
+export const createFileSink = (path: string): INotificationSink => {
+  return {
+    name: "file",
+    send: (notification: INotification): Promise<void> => {
+      fs.appendFileSync(path, `${JSON.stringify(notification)}\n`);
+      return Promise.resolve();
+    },
+  };
+};
+
+/**
+ * Set up the sinks and load the conditions that are still ongoing from past runs.
+ * Must be called within a run, after the storage is initialized.
+ */
+export const initializeNotifications = async (options: INotificationOptions): Promise<void> => {
+  const runState = getRunState();
+  if (!runState) {
+    throw new Error("notifications can only be initialized within a run");
+  }
+  const sinks = [createConsoleSink(), createFileSink(options.filePath)];
+  if (options.defenderClient) {
+    sinks.push(createDefenderSink(options.defenderClient, options.defenderChannel));
+  }
+  if (options.webhookUrl) {
+    sinks.push(createWebhookSink(options.webhookUrl));
+  }
+  runState.notificationRoutes = options.routes;
+  runState.notificationSinks = sinks;
+  runState.activeConditions = (await getStoredJson<Record<string, IActiveCondition>>(CONDITIONS_STORAGE_KEY)) ?? {};
+};
+
+const dispatch = (severity: NotificationSeverity, subject: string, message: string): void => {
+  const runState = getRunState();
+  if (!runState) {
+    return;
+  }
+  const notification: INotification = { severity, subject, message, timestamp: new Date().toISOString() };
+
+  for (const sinkName of runState.notificationRoutes[severity]) {
+    const sink = runState.notificationSinks.find((candidate) => candidate.name === sinkName);
+    if (!sink) {
+      // not configured, such as Defender when running locally
+      continue;
     }
+    const sending = sink.send(notification).catch((ex: Error) => {
+      logError("Notifications Helper", `failed sending a notification to ${sinkName}: ${subject}: ${ex.message}`);
+    });
+    runState.pendingNotifications.push(sending);
+  }
+};
+
+/**
+ * Send a notification of the given kind to the sinks routed to its severity.
+ *
+ * @param kind
+ * @param params
+ * @param conditionKey identifies an ongoing condition, such as a particular low balance.  While the condition
+ * remains unresolved, further notifications with the same key are suppressed.
+ */
+export const notify = <K extends NotificationKind>(
+  kind: K,
+  params: INotificationParams[K],
+  conditionKey?: string,
+): void => {
+  const template = TEMPLATES[kind] as INotificationTemplate<INotificationParams[K]>;
+  const subject = template.subject(params);
+  const message = template.message(params);
+
+  if (conditionKey) {
+    const conditions = getRunState()?.activeConditions;
+    if (conditions?.[conditionKey]) {
+      logMessage("Notifications Helper", `suppressing ongoing ${conditionKey}: ${subject}`);
+      return;
+    }
+    if (conditions) {
+      conditions[conditionKey] = { severity: template.severity, subject, since: new Date().toISOString() };
+    }
+  }
+
+  dispatch(template.severity, subject, message);
+};
+
+/**
+ * When the condition had been notified, send a "resolved" notification to the same sinks and forget it
+ */
+export const resolveCondition = (conditionKey: string): void => {
+  const conditions = getRunState()?.activeConditions;
+  const condition = conditions?.[conditionKey];
+  if (!conditions || !condition) {
+    return;
+  }
+  // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+  delete conditions[conditionKey];
+  dispatch(
+    condition.severity,
+    `Resolved: ${condition.subject}`,
+    `${conditionKey}, ongoing since ${condition.since}, has cleared`,
+  );
+};
+
+/**
+ * Wait for the notifications of the run to be sent and save the ongoing conditions for the next run
+ */
+export const flushNotifications = async (): Promise<void> => {
+  const runState = getRunState();
+  if (!runState) {
+    return;
+  }
+  await Promise.all(runState.pendingNotifications);
+  runState.pendingNotifications = [];
+  if (runState.activeConditions) {
+    await putStoredJson(CONDITIONS_STORAGE_KEY, runState.activeConditions);
   }
 };
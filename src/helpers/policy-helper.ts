@@ -0,0 +1,349 @@
+import { IConfig } from "./config-helper";
+import { fromWeiToNumber, toWei } from "./contracts-helper";
+import { fromDecimalString, toBigNumber } from "./fixednumber-helper";
+import { inGivenPrice, IWeightedPoolToken, outGivenIn } from "./weighted-math-helper";
+
+import { BigNumber, FixedNumber } from "ethers";
+
+/**
+ * The decisions the floor and ceiling and Mento services make, given the state they read from the contracts.
+ * Nothing here reads or writes a contract, so the backtests can replay the same decisions, see backtest-helper.
+ */
+
+export const BPS = 10000;
+
+/**
+ * the kCur Pool, see weighted-math-helper
+ */
+export interface IKCurPool {
+  kCur: IWeightedPoolToken;
+  cUsd: IWeightedPoolToken;
+  /**
+   * getSwapFeePercentage, 18 decimals
+   */
+  swapFee: BigNumber;
+}
+
+/**
+ * backingRatio is (reserveValuation * BPS) / supplyValuation
+ * @param backingRatio - not / BPS
+ * @param ceilingMultiplier - not / BPS
+ * @returns
+ * [0]: a limit is breached
+ * [1]: floor is breached (else if [0] then ceiling)
+ */
+export const checkReserveLimits = (
+  backingRatio: number,
+  ceilingMultiplier: number,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Array<boolean> => {
+  // checks following
+  // current floor price <= current kCur price
+  // below condition is a derived condition which in the end checks same logic
+  if (backingRatio > BPS) {
+    return [true, true];
+  }
+
+  // Ceiling
+  // check following
+  // current kCur price > current floor price * ceiling multiplier
+  // below condition is a derived condition which in the end checks the same logic
+  // ceilingMultiplier -> if 3.5 = 35000
+  if (backingRatio * ceilingMultiplier < BPS * BPS) {
+    return [true, false];
+  }
+
+  return [false, false];
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const getFloor = (reserveBacking: number, kCurPrice: number): number => {
+  return (reserveBacking / BPS) * kCurPrice;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const getCeiling = (ceilingMultiplier: number, floor: number): number => {
+  return floor * (ceilingMultiplier / BPS);
+};
+
+/**
+ * compute the number of kCUR needed to buy.
+ * The idea here is to alter the total supply of kCUR enough to cause
+ * the floor to equal the current price of xCUR
+ */
+export const computeFloorDelta = (floor: number, pool: IKCurPool, policy: Pick<IConfig, "swapDamping">): BigNumber => {
+  // cUSD to pay in to raise the spot price of kCUR, including the fee, to the floor
+  const cUsdIn = inGivenPrice(pool.cUsd, pool.kCur, toWei(floor, 18), pool.swapFee);
+  const kCurOut = outGivenIn(pool.cUsd, pool.kCur, cUsdIn, pool.swapFee);
+
+  // swapping on a fraction of required amount to ensure the price doesn't shoot too high
+  return toBigNumber(FixedNumber.fromValue(kCurOut).divUnsafe(FixedNumber.fromString(policy.swapDamping.toString())));
+};
+
+export interface ICeilingDelta {
+  /**
+   * amount of kCUR to sell
+   */
+  kCurAmount: BigNumber;
+  /**
+   * the least cUSD we'll accept for it
+   */
+  minCUsdAmountOut: BigNumber;
+}
+
+/**
+ * compute the number of kCUR needed to sell into the kCur Pool to bring the
+ * price of kCUR down to the ceiling, and the least cUSD we should receive for it.
+ */
+export const computeCeilingDelta = (
+  ceiling: number,
+  pool: IKCurPool,
+  policy: Pick<IConfig, "swapDamping" | "swapSlippage">,
+): ICeilingDelta => {
+  // kCUR to pay in to raise the spot price of cUSD in kCUR, including the fee, to where kCUR is at the ceiling
+  const kCurIn = inGivenPrice(pool.kCur, pool.cUsd, toWei(1 / ceiling, 18), pool.swapFee);
+
+  if (kCurIn.isZero()) {
+    // after the fee, the pool already prices kCUR at or below the ceiling
+    return { kCurAmount: BigNumber.from(0), minCUsdAmountOut: BigNumber.from(0) };
+  }
+
+  // same damping as when defending the floor, to ensure the price doesn't drop too low
+  const kCurAmount = toBigNumber(
+    FixedNumber.fromValue(kCurIn).divUnsafe(FixedNumber.fromString(policy.swapDamping.toString())),
+  );
+  const expectedAmountOut = outGivenIn(pool.kCur, pool.cUsd, kCurAmount, pool.swapFee);
+  const minCUsdAmountOut = toBigNumber(
+    FixedNumber.fromValue(expectedAmountOut).mulUnsafe(
+      FixedNumber.from(1).subUnsafe(FixedNumber.fromString(policy.swapSlippage.toString())),
+    ),
+  );
+
+  return { kCurAmount, minCUsdAmountOut };
+};
+
+export interface IMentoDelta {
+  /**
+   * $USD value of the kCUR in the MentoReserve
+   */
+  kCurTotalValue: number;
+  /**
+   * $USD value of the kG total supply
+   */
+  kGTotalValue: number;
+  /**
+   * kG total value less kCUR total value, in $USD with 18 decimals, positive when the MentoReserve holds too little kCUR
+   */
+  imbalance: BigNumber;
+  /**
+   * the imbalance, either way, as a fraction of the kG total value
+   */
+  imbalanceFraction: number;
+  /**
+   * kCUR to move, zero when the values are balanced
+   */
+  kCurAmount: BigNumber;
+  /**
+   * true to send kCUR to the MentoReserve, false to take it out
+   */
+  toMentoReserve: boolean;
+}
+
+/**
+ * The kCUR to move into or out of the MentoReserve so the value of its kCUR equals the value of the kG total supply,
+ * see mento-arbitrage-service
+ *
+ * @param kCurMentoBalance kCUR in the MentoReserve
+ * @param kGTotalSupply
+ * @param kCurPrice
+ * @param kGuilderUsdPrice
+ */
+export const computeMentoDelta = (
+  kCurMentoBalance: BigNumber,
+  kGTotalSupply: BigNumber,
+  kCurPrice: number,
+  kGuilderUsdPrice: number,
+): IMentoDelta => {
+  const price = fromDecimalString(kCurPrice);
+  const kCurValue = toBigNumber(FixedNumber.fromValue(kCurMentoBalance).mulUnsafe(price));
+
+  /**
+   * Using the fixed price of kG to help maintain that fixed
+   * equivalence between kGUilder and Guilder
+   */
+  const kGValue = toBigNumber(FixedNumber.fromValue(kGTotalSupply).mulUnsafe(fromDecimalString(kGuilderUsdPrice)));
+
+  const imbalance = kGValue.sub(kCurValue);
+
+  return {
+    kCurTotalValue: fromWeiToNumber(kCurValue, 18),
+    kGTotalValue: fromWeiToNumber(kGValue, 18),
+    imbalance,
+    imbalanceFraction: kGValue.isZero()
+      ? 0
+      : FixedNumber.fromValue(imbalance.abs()).divUnsafe(FixedNumber.fromValue(kGValue)).toUnsafeFloat(),
+    kCurAmount: toBigNumber(FixedNumber.fromValue(imbalance.abs()).divUnsafe(price), 0, "down"),
+    toMentoReserve: imbalance.gt(0),
+  };
+};
+
+/**
+ * "withinBand": the values differ by no more than the tolerance band, nothing to move
+ * "rebalance": move all of the kCUR needed to balance the values
+ * "partialRebalance": the kCUR needed is more than the per-run or per-day maximum, move the maximum, part of the way
+ * "dailyMaximumReached": the per-day maximum has already been moved, nothing more to move until some of it ages out
+ */
+export type MentoDecision = "withinBand" | "rebalance" | "partialRebalance" | "dailyMaximumReached";
+
+export interface IMentoRebalance extends IMentoDelta {
+  decision: MentoDecision;
+  /**
+   * kCUR needed to balance the values, before the per-run and per-day maximums
+   */
+  targetKCurAmount: BigNumber;
+}
+
+/**
+ * Apply the tolerance band and the per-run and per-day maximums to the kCUR computeMentoDelta calls for
+ *
+ * @param delta from computeMentoDelta
+ * @param transferredToday kCUR already moved into and out of the MentoReserve in the past 24 hours
+ */
+export const computeMentoRebalance = (
+  delta: IMentoDelta,
+  policy: Pick<IConfig, "mentoToleranceBand" | "mentoMaxTransferPerRun" | "mentoMaxTransferPerDay">,
+  transferredToday: BigNumber,
+): IMentoRebalance => {
+  const rebalance = { ...delta, targetKCurAmount: delta.kCurAmount };
+
+  if (delta.kCurAmount.isZero() || delta.imbalanceFraction <= policy.mentoToleranceBand) {
+    return { ...rebalance, decision: "withinBand", kCurAmount: BigNumber.from(0) };
+  }
+
+  const remainingToday = toWei(policy.mentoMaxTransferPerDay, 18).sub(transferredToday);
+  if (!remainingToday.gt(0)) {
+    return { ...rebalance, decision: "dailyMaximumReached", kCurAmount: BigNumber.from(0) };
+  }
+
+  const maxPerRun = toWei(policy.mentoMaxTransferPerRun, 18);
+  const maximum = maxPerRun.lt(remainingToday) ? maxPerRun : remainingToday;
+  if (delta.kCurAmount.gt(maximum)) {
+    return { ...rebalance, decision: "partialRebalance", kCurAmount: maximum };
+  }
+  return { ...rebalance, decision: "rebalance" };
+};
+
+export type InventoryToken = "kCUR" | "cUSD" | "kG";
+
+export type InventoryPool = "kCur Pool" | "kGuilder Pool";
+
+/**
+ * the tokens in the order their shortfalls are filled
+ */
+export const INVENTORY_TOKENS: Array<InventoryToken> = ["kCUR", "cUSD", "kG"];
+
+/**
+ * the tokens a short token can be bought with, and where, in order of preference
+ */
+const INVENTORY_ROUTES: Record<InventoryToken, Array<{ tokenIn: InventoryToken; pool: InventoryPool }>> = {
+  kCUR: [{ tokenIn: "cUSD", pool: "kCur Pool" }],
+  cUSD: [
+    { tokenIn: "kCUR", pool: "kCur Pool" },
+    { tokenIn: "kG", pool: "kGuilder Pool" },
+  ],
+  kG: [{ tokenIn: "cUSD", pool: "kGuilder Pool" }],
+};
+
+export interface IInventoryLevel {
+  /**
+   * the Relayer's balance
+   */
+  balance: BigNumber;
+  /**
+   * top up when the balance falls below this
+   */
+  minimum: BigNumber;
+  /**
+   * top up to this, and what is above it may be swapped to top up the other tokens
+   */
+  target: BigNumber;
+  /**
+   * $USD
+   */
+  price: number;
+}
+
+export interface IInventorySwap {
+  pool: InventoryPool;
+  tokenIn: InventoryToken;
+  tokenOut: InventoryToken;
+  amountOut: BigNumber;
+  /**
+   * the most of tokenIn to pay, the value of amountOut plus the slippage tolerance
+   */
+  maxAmountIn: BigNumber;
+}
+
+export interface IInventoryPlan {
+  swaps: Array<IInventorySwap>;
+  /**
+   * what must be sent to the Relayer to bring each short token to its target, where the swaps can't
+   */
+  shortfalls: Partial<Record<InventoryToken, BigNumber>>;
+}
+
+/**
+ * Top up each token that has fallen below its minimum to its target, by swapping what the Relayer holds above the
+ * targets of the other tokens, see inventory-service.  The swaps are sized by the $USD prices plus the slippage
+ * tolerance.  Whatever the swaps can't cover is a shortfall, to be funded.
+ */
+export const computeInventoryPlan = (
+  levels: Record<InventoryToken, IInventoryLevel>,
+  policy: Pick<IConfig, "swapSlippage">,
+): IInventoryPlan => {
+  const plan: IInventoryPlan = { swaps: [], shortfalls: {} };
+  const slippage = FixedNumber.from(1).addUnsafe(fromDecimalString(policy.swapSlippage));
+  const surplus = {} as Record<InventoryToken, BigNumber>;
+  for (const token of INVENTORY_TOKENS) {
+    const excess = levels[token].balance.sub(levels[token].target);
+    surplus[token] = excess.gt(0) ? excess : BigNumber.from(0);
+  }
+
+  for (const tokenOut of INVENTORY_TOKENS) {
+    const level = levels[tokenOut];
+    let needed = level.target.sub(level.balance);
+    if (!level.balance.lt(level.minimum) || !needed.gt(0)) {
+      continue;
+    }
+
+    for (const { tokenIn, pool } of INVENTORY_ROUTES[tokenOut]) {
+      if (!needed.gt(0) || surplus[tokenIn].isZero()) {
+        continue;
+      }
+      /**
+       * how many tokenIn for one tokenOut, with the slippage tolerance
+       */
+      const rate = fromDecimalString(level.price)
+        .divUnsafe(fromDecimalString(levels[tokenIn].price))
+        .mulUnsafe(slippage);
+      const cost = toBigNumber(FixedNumber.fromValue(needed).mulUnsafe(rate), 0, "up");
+
+      if (cost.lte(surplus[tokenIn])) {
+        plan.swaps.push({ pool, tokenIn, tokenOut, amountOut: needed, maxAmountIn: cost });
+        surplus[tokenIn] = surplus[tokenIn].sub(cost);
+        needed = BigNumber.from(0);
+      } else {
+        const amountOut = toBigNumber(FixedNumber.fromValue(surplus[tokenIn]).divUnsafe(rate), 0, "down");
+        plan.swaps.push({ pool, tokenIn, tokenOut, amountOut, maxAmountIn: surplus[tokenIn] });
+        surplus[tokenIn] = BigNumber.from(0);
+        needed = needed.sub(amountOut);
+      }
+    }
+
+    if (needed.gt(0)) {
+      plan.shortfalls[tokenOut] = needed;
+    }
+  }
+
+  return plan;
+};
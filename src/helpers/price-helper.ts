@@ -0,0 +1,209 @@
+import { logMessage } from "./errors-helper";
+
+/**
+ * A place we can get the $USD price of a token from
+ */
+export interface IPriceSource {
+  name: string;
+  /**
+   * only helps to reject outliers, never counts toward the quorum nor goes into the price, such as a static price
+   */
+  reference?: boolean;
+  getPrice(): Promise<number>;
+}
+
+export interface IPriceSourceResult {
+  source: string;
+  reference?: boolean;
+  price?: number;
+  /**
+   * why the source could not supply a price
+   */
+  error?: string;
+  /**
+   * is further than the tolerance from the median
+   */
+  outlier: boolean;
+}
+
+export interface IAggregatedPrice {
+  /**
+   * median of the sources that agree, undefined when there is no quorum
+   */
+  price?: number;
+  /**
+   * median of all the sources that supplied a price
+   */
+  median?: number;
+  agreeing: number;
+  quorumReached: boolean;
+  results: Array<IPriceSourceResult>;
+}
+
+export interface IPriceAggregationOptions {
+  /**
+   * fraction of the median beyond which a source is rejected as an outlier, 0.02 is 2%
+   */
+  tolerance: number;
+  /**
+   * minimum number of sources that must agree (be within the tolerance of the median), not counting reference sources
+   */
+  quorum: number;
+}
+
+/**
+ * A price observed at a point in time
+ */
+export interface IPriceSample {
+  /**
+   * seconds since the epoch
+   */
+  timestamp: number;
+  price: number;
+}
+
+export const median = (values: Array<number>): number => {
+  if (!values.length) {
+    throw new Error("cannot take the median of no values");
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * A price holds until the next sample, so each sample is weighted by the time until the next one, and the newest by
+ * the time until now.  So the newest sample, such as a price moved in the last block, counts for little.  Falls back to
+ * the simple mean when the samples don't span any time.
+ *
+ * @param now seconds since the epoch, default the timestamp of the newest sample
+ */
+export const timeWeightedAverage = (samples: Array<IPriceSample>, now?: number): number => {
+  if (!samples.length) {
+    throw new Error("cannot take the time-weighted average of no samples");
+  }
+  const sorted = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+  const end = Math.max(now ?? 0, sorted[sorted.length - 1].timestamp);
+  const duration = end - sorted[0].timestamp;
+
+  if (duration <= 0) {
+    return sorted.reduce((sum, sample) => sum + sample.price, 0) / sorted.length;
+  }
+
+  let weightedSum = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    const until = i + 1 < sorted.length ? sorted[i + 1].timestamp : end;
+    weightedSum += sorted[i].price * (until - sorted[i].timestamp);
+  }
+  return weightedSum / duration;
+};
+
+/**
+ * A reference price, such as the peg, see IPriceSource.reference
+ */
+export const createStaticPriceSource = (price: number): IPriceSource => {
+  return {
+    name: "Static",
+    reference: true,
+    getPrice: (): Promise<number> => Promise.resolve(price),
+  };
+};
+
+const formatResult = (result: IPriceSourceResult): string => {
+  if (result.price === undefined) {
+    return `${result.source}: failed (${result.error ?? "unknown error"})`;
+  }
+  return `${result.source}: ${result.price}${result.reference ? " (reference)" : ""}${
+    result.outlier ? " (outlier)" : ""
+  }`;
+};
+
+/**
+ * Query every source, take the median, reject sources beyond the tolerance from the median,
+ * and return the median of the remaining sources only if enough of them agree.  Reference sources count toward
+ * the median, but are neither counted toward the quorum nor part of the price.
+ *
+ * Logs the value of every source and the decision.
+ */
+export const aggregatePrice = async (
+  sources: Array<IPriceSource>,
+  options: IPriceAggregationOptions,
+  logPrefix: string,
+): Promise<IAggregatedPrice> => {
+  const results: Array<IPriceSourceResult> = await Promise.all(
+    sources.map((source) =>
+      source.getPrice().then(
+        (price): IPriceSourceResult => {
+          if (!Number.isFinite(price) || price <= 0) {
+            return {
+              source: source.name,
+              reference: source.reference,
+              error: `invalid price: ${price}`,
+              outlier: false,
+            };
+          }
+          return { source: source.name, reference: source.reference, price, outlier: false };
+        },
+        (ex: Error): IPriceSourceResult => ({
+          source: source.name,
+          reference: source.reference,
+          error: ex.message,
+          outlier: false,
+        }),
+      ),
+    ),
+  );
+
+  const prices: Array<number> = [];
+  for (const result of results) {
+    if (result.price !== undefined) {
+      prices.push(result.price);
+    }
+  }
+
+  const aggregated: IAggregatedPrice = {
+    agreeing: 0,
+    quorumReached: false,
+    results,
+  };
+
+  if (prices.length) {
+    aggregated.median = median(prices);
+    const agreeingPrices: Array<number> = [];
+
+    for (const result of results) {
+      if (result.price !== undefined) {
+        result.outlier = Math.abs(result.price - aggregated.median) / aggregated.median > options.tolerance;
+        if (!result.outlier && !result.reference) {
+          agreeingPrices.push(result.price);
+        }
+      }
+    }
+
+    aggregated.agreeing = agreeingPrices.length;
+    aggregated.quorumReached = aggregated.agreeing >= options.quorum;
+    if (aggregated.quorumReached) {
+      aggregated.price = median(agreeingPrices);
+    }
+  }
+
+  const counted = sources.filter((source) => !source.reference).length;
+  logMessage(logPrefix, `price sources: ${results.map(formatResult).join(", ")}`);
+  if (aggregated.price !== undefined) {
+    logMessage(
+      logPrefix,
+      `${aggregated.agreeing} of ${counted} sources agree within ${options.tolerance * 100}%, price: ${
+        aggregated.price
+      }`,
+    );
+  } else {
+    logMessage(
+      logPrefix,
+      `no quorum, ${aggregated.agreeing} of ${counted} sources agree within ${options.tolerance * 100}% (needs ${
+        options.quorum
+      })`,
+    );
+  }
+
+  return aggregated;
+};
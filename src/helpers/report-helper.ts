@@ -0,0 +1,159 @@
+import { IMetric } from "./metrics-helper";
+import { IMultisigProposal } from "./multisig-helper";
+import { getRunState } from "./run-helper";
+import { ServiceStatus } from "./services-helper";
+import { ITransactionOutcome, TransactionStatus } from "./tracker-helper";
+import { IPlannedAction } from "./transactions-helper";
+
+/**
+ * "skipped" when another run was in flight
+ */
+export type RunStatus = "succeeded" | "failed" | "skipped";
+
+/**
+ * A transaction a service sent
+ */
+export interface IReportedTransaction {
+  contractName: string;
+  method: string;
+  hash: string;
+  /**
+   * the Defender Relayer's id for the transaction, which survives the transaction being repriced
+   * and replaced.  Only when sending with Defender.
+   */
+  transactionId?: string;
+  rationale: string;
+  /**
+   * only for transactions a service waited on
+   */
+  outcome?: TransactionStatus;
+  /**
+   * when Defender replaced the transaction, the hash of the replacement
+   */
+  finalHash?: string;
+  /**
+   * why the transaction failed or was dropped
+   */
+  outcomeReason?: string;
+}
+
+/**
+ * What one service, or the handler, read, sent and ran into
+ */
+export interface IServiceReport {
+  name: string;
+  /**
+   * only for the services in the services registry
+   */
+  id?: string;
+  status?: ServiceStatus;
+  /**
+   * why the service failed, was skipped or was disabled
+   */
+  reason?: string;
+  durationMs?: number;
+  /**
+   * the values the service read and computed its decisions from, such as prices, backing ratio, floor and ceiling
+   */
+  inputs: Record<string, unknown>;
+  transactions: Array<IReportedTransaction>;
+  errors: Array<string>;
+}
+
+export interface IRunReport {
+  runId?: string;
+  status: RunStatus;
+  network?: string;
+  dryRun: boolean;
+  relayerAddress?: string;
+  /**
+   * ISO 8601
+   */
+  startedAt: string;
+  durationMs: number;
+  services: Array<IServiceReport>;
+  /**
+   * only in dry-run mode, the writes the services would have made
+   */
+  plannedActions?: Array<IPlannedAction>;
+  /**
+   * the writes above the risk limits, proposed to the KolektivoMultiSig instead of sent
+   */
+  multisigProposals?: Array<IMultisigProposal>;
+  /**
+   * the gauges and counters of the run, see metrics-helper
+   */
+  metrics?: Array<IMetric>;
+}
+
+/**
+ * @returns undefined when not within a run, such as when a helper is used outside of the handler
+ */
+export const getRunReport = (): IRunReport | undefined => {
+  return getRunState()?.report;
+};
+
+/**
+ * stamps the duration of the run
+ */
+export const finishRunReport = (status: RunStatus): IRunReport => {
+  const state = getRunState();
+  if (!state) {
+    throw new Error("not within a run");
+  }
+  state.report.status = status;
+  state.report.durationMs = Date.now() - state.startTime;
+  return state.report;
+};
+
+/**
+ * @returns the report for the named service, undefined when not within a run
+ */
+export const getServiceReport = (serviceName: string): IServiceReport | undefined => {
+  const report = getRunReport();
+  if (!report) {
+    return undefined;
+  }
+  let serviceReport = report.services.find((service) => service.name === serviceName);
+  if (!serviceReport) {
+    serviceReport = { name: serviceName, inputs: {}, transactions: [], errors: [] };
+    report.services.push(serviceReport);
+  }
+  return serviceReport;
+};
+
+/**
+ * Record a value the service read or computed its decisions from.
+ * BigNumbers should be converted to readable strings first.
+ */
+export const recordInput = (serviceName: string, name: string, value: unknown): void => {
+  const serviceReport = getServiceReport(serviceName);
+  if (serviceReport) {
+    serviceReport.inputs[name] = value;
+  }
+};
+
+export const recordTransaction = (serviceName: string, transaction: IReportedTransaction): void => {
+  getServiceReport(serviceName)?.transactions.push(transaction);
+};
+
+/**
+ * @param hash the original hash of the transaction
+ * @param outcome
+ */
+export const recordTransactionOutcome = (hash: string, outcome: ITransactionOutcome): void => {
+  for (const service of getRunReport()?.services ?? []) {
+    const transaction = service.transactions.find((reported) => reported.hash === hash);
+    if (transaction) {
+      transaction.outcome = outcome.status;
+      if (outcome.hash !== hash) {
+        transaction.finalHash = outcome.hash;
+      }
+      transaction.outcomeReason = outcome.reason;
+    }
+  }
+};
+
+export const recordError = (serviceName: string, message: string): void => {
+  getServiceReport(serviceName)?.errors.push(message);
+};
@@ -1,25 +1,24 @@
-import { getContractAbi, getContractAddress } from "./abi-helper";
-import { getContract, ITransaction } from "./contracts-helper";
+import { getContractAddress } from "./abi-helper";
+import { fromWeiToNumber, getContract, getContractAt, ITransaction } from "./contracts-helper";
+import { logMessage } from "./errors-helper";
+import { sendTransaction } from "./transactions-helper";
 
-import { DefenderRelaySigner } from "defender-relay-client/lib/ethers";
-import { ethers } from "ethers";
+import { BigNumber, Signer } from "ethers";
 import { Contract } from "ethers/lib/ethers";
 import { parseEther } from "ethers/lib/utils";
 
-export const getReserveContract = (signer: DefenderRelaySigner): Contract => {
+export const getReserveContract = (signer: Signer): Contract => {
   return getContract("Reserve", signer);
 };
 
 export const getOracleForToken = async (
   reserveContract: Contract,
   erc20Name: string,
-  signer: DefenderRelaySigner,
+  signer: Signer,
 ): Promise<Contract> => {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   let oracleAddress: string;
 
-  const oracleAbi = getContractAbi("Oracle");
-
   if (erc20Name === "CuracaoReserveToken") {
     oracleAddress = await reserveContract.tokenOracle();
     // then is the reserve token
@@ -28,11 +27,150 @@ export const getOracleForToken = async (
     const erc20Address = getContractAddress(erc20Name);
     oracleAddress = await reserveContract.oraclePerERC20(erc20Address);
   }
-  return new ethers.Contract(oracleAddress, oracleAbi, signer);
+  return getContractAt("Oracle", oracleAddress, signer);
+};
+
+/**
+ * When to push a new price to an Oracle
+ */
+export interface IOracleReportingPolicy {
+  /**
+   * push when the price differs from the last report by more than this fraction, 0.005 is 0.5%
+   */
+  deviationThreshold: number;
+  /**
+   * push when the last report is older than this many seconds
+   */
+  heartbeatSeconds: number;
+  /**
+   * push this long before the last report would expire, at least the time between runs, so the next run isn't late
+   */
+  expiryMarginSeconds: number;
+}
+
+/**
+ * @param expirySeconds how long a report lasts, 0 when it doesn't expire
+ * @returns the heartbeat, brought forward by the margin when the report would otherwise expire first
+ */
+export const getHeartbeatSeconds = (policy: IOracleReportingPolicy, expirySeconds: number): number => {
+  return expirySeconds
+    ? Math.min(policy.heartbeatSeconds, Math.max(expirySeconds - policy.expiryMarginSeconds, 0))
+    : policy.heartbeatSeconds;
+};
+
+interface IProviderReport {
+  timestamp: BigNumber;
+  payload: BigNumber;
+}
+
+interface ILastReport {
+  /**
+   * seconds since the epoch
+   */
+  timestamp: number;
+  price: number;
+}
+
+/**
+ * The Oracle keeps the two most recent reports of each provider
+ *
+ * @returns the most recent report of the given provider, undefined if it has never reported
+ */
+const getLastReport = async (oracleContract: Contract, providerAddress: string): Promise<ILastReport | undefined> => {
+  const reports: Array<IProviderReport> = await Promise.all([
+    oracleContract.providerReports(providerAddress, 0),
+    oracleContract.providerReports(providerAddress, 1),
+  ]);
+  const lastReport = reports[0].timestamp.gt(reports[1].timestamp) ? reports[0] : reports[1];
+
+  if (lastReport.timestamp.isZero()) {
+    return undefined;
+  }
+
+  return { timestamp: lastReport.timestamp.toNumber(), price: fromWeiToNumber(lastReport.payload, 18) };
+};
+
+interface IReportDecision {
+  report: boolean;
+  reason: string;
+}
+
+const decideToReport = async (
+  oracleContract: Contract,
+  price: number,
+  policy: IOracleReportingPolicy,
+): Promise<IReportDecision> => {
+  const lastReport = await getLastReport(oracleContract, await oracleContract.signer.getAddress());
+
+  if (!lastReport) {
+    return { report: true, reason: "there is no previous report" };
+  }
+
+  /**
+   * don't let the report expire, which would invalidate the Oracle
+   */
+  const reportExpirationTime = ((await oracleContract.reportExpirationTime()) as BigNumber).toNumber();
+  const heartbeatSeconds = getHeartbeatSeconds(policy, reportExpirationTime);
+  /**
+   * the Oracle timestamps reports with the block, so measure the age by the chain's clock
+   */
+  const now = (await oracleContract.provider.getBlock("latest")).timestamp;
+  const age = now - lastReport.timestamp;
+  const deviation = Math.abs(price - lastReport.price) / lastReport.price;
+
+  if (deviation > policy.deviationThreshold) {
+    return {
+      report: true,
+      reason: `price deviates ${deviation * 100}% from the last report (${lastReport.price}), more than ${
+        policy.deviationThreshold * 100
+      }%`,
+    };
+  }
+
+  if (age >= heartbeatSeconds) {
+    return {
+      report: true,
+      reason: `the last report is ${age} seconds old, the heartbeat is ${heartbeatSeconds} seconds`,
+    };
+  }
+
+  return {
+    report: false,
+    reason: `price deviates ${deviation * 100}% from the last report (${lastReport.price}), within ${
+      policy.deviationThreshold * 100
+    }%, and the last report is ${age} seconds old, within the heartbeat of ${heartbeatSeconds} seconds`,
+  };
 };
 
-export const updateOracle = (oracleContract: Contract, price: number): Promise<ITransaction> => {
+/**
+ * Push the price to the Oracle, but only if the policy says it is time to.
+ *
+ * @returns undefined when the push is skipped, or when running in dry-run mode
+ */
+export const updateOracle = async (
+  oracleContract: Contract,
+  oracleName: string,
+  price: number,
+  policy: IOracleReportingPolicy,
+  serviceName: string,
+): Promise<ITransaction | undefined> => {
+  const { report, reason } = await decideToReport(oracleContract, price, policy);
+
+  if (!report) {
+    logMessage(serviceName, `Skipping report of ${price} to ${oracleName}: ${reason}`);
+    return undefined;
+  }
+
+  logMessage(serviceName, `Reporting ${price} to ${oracleName}: ${reason}`);
+
   // default precision is 18
   const formattedPrice = parseEther(price.toString());
-  return oracleContract.pushReport(formattedPrice) as Promise<ITransaction>;
+  return sendTransaction(
+    serviceName,
+    oracleContract,
+    oracleName,
+    "pushReport",
+    [formattedPrice],
+    `report price of ${price}, ${reason}`,
+  );
 };
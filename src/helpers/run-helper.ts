@@ -0,0 +1,110 @@
+import { IContractInfosJson, ISharedContractInfos } from "./abi-helper";
+import { IConfig, NetworkName } from "./config-helper";
+import { ContractFactory } from "./contracts-helper";
+import { IHistoryStore } from "./history-helper";
+import { IMetric, MetricName } from "./metrics-helper";
+import { IMultisigProposal } from "./multisig-helper";
+import {
+  IActiveCondition,
+  INotificationSink,
+  NotificationSeverity,
+  NotificationSinkName,
+} from "./notifications-helper";
+import { IRunReport } from "./report-helper";
+import { ISignerBackend } from "./signer-helper";
+import { IKeyValueStore } from "./storage-helper";
+import { IPlannedAction } from "./transactions-helper";
+
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
+
+/**
+ * State belonging to a single invocation of the handler.
+ *
+ * Kept in AsyncLocalStorage rather than module globals, so nothing carries over between invocations
+ * that reuse the same Autotask process, and two invocations in the same process can't see each other's state.
+ * This includes what the handler sets up at the start of the run: the config, ABIs, contract factory, signer,
+ * storage, history and notification sinks.
+ */
+export interface IRunState {
+  runId: string;
+  config?: IConfig;
+  /**
+   * services read on-chain state and compute their decisions, but nothing is signed or sent
+   */
+  dryRun: boolean;
+  /**
+   * the ABIs and addresses of the configured network, see abi-helper
+   */
+  abis?: { network: NetworkName; contracts: IContractInfosJson; shared: ISharedContractInfos };
+  contractFactory?: ContractFactory;
+  /**
+   * signs the run's transactions and follows them until mined, see tracker-helper
+   */
+  signerBackend?: ISignerBackend;
+  storage?: IKeyValueStore;
+  history?: IHistoryStore;
+  notificationSinks: Array<INotificationSink>;
+  notificationRoutes: Record<NotificationSeverity, Array<NotificationSinkName>>;
+  /**
+   * one or more services have failed
+   */
+  failed: boolean;
+  /**
+   * writes recorded instead of sent, in dry-run mode
+   */
+  plannedActions: Array<IPlannedAction>;
+  /**
+   * writes above the risk limits, for the KolektivoMultiSig instead
+   */
+  multisigProposals: Array<IMultisigProposal>;
+  report: IRunReport;
+  startTime: number;
+  /**
+   * notifications still being sent
+   */
+  pendingNotifications: Array<Promise<void>>;
+  /**
+   * ongoing conditions that have been notified, by condition key, loaded from storage
+   */
+  activeConditions?: Record<string, IActiveCondition>;
+  /**
+   * gauges of this run and counters carried over from past runs, see metrics-helper
+   */
+  metrics?: Partial<Record<MetricName, IMetric>>;
+}
+
+const runStorage = new AsyncLocalStorage<IRunState>();
+
+/**
+ * Invoke fn with a fresh run state, available to everything fn calls through getRunState
+ */
+export const startRun = <T>(fn: (state: IRunState) => Promise<T>): Promise<T> => {
+  const startTime = Date.now();
+  const state: IRunState = {
+    runId: randomBytes(8).toString("hex"),
+    dryRun: false,
+    notificationSinks: [],
+    notificationRoutes: { info: [], warning: [], critical: [] },
+    failed: false,
+    plannedActions: [],
+    multisigProposals: [],
+    report: {
+      status: "succeeded",
+      dryRun: false,
+      startedAt: new Date(startTime).toISOString(),
+      durationMs: 0,
+      services: [],
+    },
+    startTime,
+    pendingNotifications: [],
+  };
+  return runStorage.run(state, () => fn(state));
+};
+
+/**
+ * @returns undefined when not called from within a run, such as when a helper is used outside of the handler
+ */
+export const getRunState = (): IRunState | undefined => {
+  return runStorage.getStore();
+};
@@ -0,0 +1,263 @@
+import { logMessage, logWarning, serviceFailed, serviceThrewException } from "./errors-helper";
+import { resolveCondition } from "./notifications-helper";
+import { IPriceSource } from "./price-helper";
+
+import { Signer } from "ethers";
+
+/**
+ * The values services pass to one another
+ */
+export interface IServiceValues {
+  /**
+   * $USD price of cUSD, reported to the cUSD Oracle
+   */
+  cUsdPrice: number;
+  /**
+   * $USD price of kG
+   */
+  kGuilderUsdPrice: number;
+  /**
+   * $USD price of kCUR
+   */
+  kCurPrice: number;
+  /**
+   * the Reserve's kCUR Oracle has the latest price, so Reserve.reserveStatus is up-to-date
+   */
+  kCurOracleUpdated: boolean;
+  /**
+   * how many kG to buy one kCUR, reported to SortedOracles
+   */
+  kGkCurRate: number;
+  /**
+   * the Relayer's balances have been topped up where they could be, see inventory-service
+   */
+  relayerInventoryChecked: boolean;
+}
+
+export type ServiceValueName = keyof IServiceValues;
+
+export interface IServiceContext {
+  signer: Signer;
+  relayerAddress: string;
+  coinGeckoApiKey: string;
+  /**
+   * replace the market sources of the cUSD price, default see getCUsdPriceSources in cusd-service
+   */
+  cUsdPriceSources?: Array<IPriceSource>;
+  /**
+   * the outputs of the services that have run so far, always includes the service's inputs
+   */
+  values: Partial<IServiceValues>;
+}
+
+export interface IService {
+  /**
+   * used to disable the service in the config
+   */
+  id: string;
+  /**
+   * for logging
+   */
+  name: string;
+  /**
+   * values that must have been produced by other services before this one can run
+   */
+  inputs: Array<ServiceValueName>;
+  /**
+   * values this service produces for other services
+   */
+  outputs: Array<ServiceValueName>;
+  /**
+   * the service sends transactions from the Relayer.  Such services run one at a time, since they share the
+   * Relayer's nonce and its token balances.
+   */
+  sendsTransactions: boolean;
+  /**
+   * @returns the outputs, or undefined when the service failed and has already reported why
+   */
+  execute(context: IServiceContext): Promise<Partial<IServiceValues> | undefined>;
+}
+
+export type ServiceStatus = "succeeded" | "failed" | "skipped" | "disabled";
+
+export interface IServiceResult {
+  id: string;
+  name: string;
+  status: ServiceStatus;
+  /**
+   * why the service failed, was skipped or was disabled
+   */
+  reason?: string;
+  /**
+   * how long the service ran, not including waiting for its inputs or its turn to send transactions
+   */
+  durationMs: number;
+}
+
+const logPrefix = "Services Helper";
+
+const setValue = <K extends ServiceValueName>(
+  values: Partial<IServiceValues>,
+  outputs: Partial<IServiceValues>,
+  name: K,
+): void => {
+  values[name] = outputs[name];
+};
+
+/**
+ * @returns the services ordered so that every service comes after the services producing its inputs
+ */
+const sortServices = (services: Array<IService>): Array<IService> => {
+  const producers = new Map<ServiceValueName, IService>();
+  for (const service of services) {
+    for (const output of service.outputs) {
+      const producer = producers.get(output);
+      if (producer) {
+        throw new Error(`${output} is produced by both ${producer.id} and ${service.id}`);
+      }
+      producers.set(output, service);
+    }
+  }
+
+  const sorted: Array<IService> = [];
+  const visiting = new Set<IService>();
+  const visit = (service: IService): void => {
+    if (sorted.includes(service)) {
+      return;
+    }
+    if (visiting.has(service)) {
+      throw new Error(`services have a circular dependency involving ${service.id}`);
+    }
+    visiting.add(service);
+    for (const input of service.inputs) {
+      const producer = producers.get(input);
+      if (!producer) {
+        throw new Error(`no service produces ${input}, needed by ${service.id}`);
+      }
+      visit(producer);
+    }
+    visiting.delete(service);
+    sorted.push(service);
+  };
+
+  services.forEach(visit);
+  return sorted;
+};
+
+/**
+ * Run every service as soon as the services producing its inputs have succeeded, so independent services
+ * run in parallel, except that services sending transactions take turns.  A service that fails, or is disabled,
+ * causes every service downstream of it to be skipped, while unrelated services still run.
+ *
+ * Throws before running anything when the dependencies can't be resolved or a disabled id is unknown.
+ *
+ * @param services
+ * @param disabledServiceIds
+ * @param context everything but the values, which are filled in as services produce them
+ */
+export const runServices = async (
+  services: Array<IService>,
+  disabledServiceIds: Array<string>,
+  context: Omit<IServiceContext, "values">,
+): Promise<Array<IServiceResult>> => {
+  const unknownIds = disabledServiceIds.filter((id) => !services.some((service) => service.id === id));
+  if (unknownIds.length) {
+    throw new Error(
+      `unknown services cannot be disabled: ${unknownIds.join(", ")} (known: ${services
+        .map((service) => service.id)
+        .join(", ")})`,
+    );
+  }
+
+  const sorted = sortServices(services);
+  const values: Partial<IServiceValues> = {};
+  const runs = new Map<IService, Promise<IServiceResult>>();
+  /**
+   * settles when the service sending transactions has finished, the next one waits for it
+   */
+  let sending: Promise<void> = Promise.resolve();
+
+  const run = async (service: IService): Promise<IServiceResult> => {
+    const result: IServiceResult = { id: service.id, name: service.name, status: "succeeded", durationMs: 0 };
+
+    const upstream = await Promise.all(
+      sorted
+        .filter((producer) => producer.outputs.some((output) => service.inputs.includes(output)))
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        .map((producer) => runs.get(producer)!),
+    );
+
+    if (disabledServiceIds.includes(service.id)) {
+      result.status = "disabled";
+      result.reason = "disabled in the config";
+      logMessage(logPrefix, `${service.name} is disabled`);
+      return result;
+    }
+
+    const unavailable = upstream.filter((upstreamResult) => upstreamResult.status !== "succeeded");
+    if (unavailable.length) {
+      result.status = "skipped";
+      result.reason = `depends on ${unavailable
+        .map((upstreamResult) => `${upstreamResult.name} (${upstreamResult.status})`)
+        .join(", ")}`;
+      logWarning(logPrefix, `skipping ${service.name}, it ${result.reason}`);
+      return result;
+    }
+
+    let finishedSending = (): void => undefined;
+    if (service.sendsTransactions) {
+      const previous = sending;
+      sending = new Promise<void>((resolve) => (finishedSending = resolve));
+      await previous;
+    }
+
+    const startTime = Date.now();
+    try {
+      const outputs = await service.execute({ ...context, values });
+      result.durationMs = Date.now() - startTime;
+
+      if (!outputs) {
+        result.status = "failed";
+        result.reason = "the service reported a failure";
+        return result;
+      }
+
+      const missing = service.outputs.filter((output) => outputs[output] === undefined);
+      if (missing.length) {
+        result.status = "failed";
+        result.reason = `did not produce ${missing.join(", ")}`;
+        serviceFailed(service.name, result.reason);
+        return result;
+      }
+
+      for (const output of service.outputs) {
+        setValue(values, outputs, output);
+      }
+      resolveCondition(`serviceFailed:${service.name}`);
+    } catch (ex) {
+      result.durationMs = Date.now() - startTime;
+      serviceThrewException(service.name, ex);
+      result.status = "failed";
+      result.reason = (ex as Error).message;
+    } finally {
+      finishedSending();
+    }
+
+    return result;
+  };
+
+  for (const service of sorted) {
+    runs.set(service, run(service));
+  }
+
+  const results = await Promise.all(runs.values());
+
+  logMessage(
+    logPrefix,
+    `services: ${results
+      .map((result) => `${result.name}: ${result.status}${result.reason ? ` (${result.reason})` : ""}`)
+      .join(", ")}`,
+  );
+
+  return results;
+};
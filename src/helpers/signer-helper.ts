@@ -0,0 +1,79 @@
+import { environment } from "../globals";
+
+import { IAutoRelayHandler } from "./abi-helper";
+import { logMessage } from "./errors-helper";
+
+import { Provider } from "@ethersproject/providers";
+import { Relayer } from "defender-relay-client";
+import { DefenderRelayProvider, DefenderRelaySigner } from "defender-relay-client/lib/ethers";
+import { ethers, Signer } from "ethers";
+
+/**
+ * The signer and provider the services use to read and write on-chain.
+ *
+ * Either a Defender Relayer, or a plain ethers Wallet on a JSON-RPC url (such as a local Hardhat/Anvil node
+ * or a self-hosted keeper), in which case no Defender credentials are needed.
+ * Or the in-memory chain of simulator-helper, for testing.
+ */
+export interface ISignerBackend {
+  name: "defender" | "wallet" | "simulator";
+  signer: Signer;
+  provider: Provider;
+  /**
+   * only available when running with Defender
+   */
+  relayer?: Relayer;
+  /**
+   * address of the account that signs and pays for the transactions, we call it "the Relayer" either way
+   */
+  getAddress(): Promise<string>;
+}
+
+const createDefenderBackend = (event: IAutoRelayHandler): ISignerBackend => {
+  const relayer = new Relayer(event);
+  const provider = new DefenderRelayProvider(event);
+  const signer = new DefenderRelaySigner(event, provider, { speed: "fast" });
+
+  return {
+    name: "defender",
+    signer,
+    provider,
+    relayer,
+    getAddress: async (): Promise<string> => (await relayer.getRelayer()).address,
+  };
+};
+
+const createWalletBackend = (rpcUrl: string, privateKey: string): ISignerBackend => {
+  const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+  const signer = new ethers.Wallet(privateKey, provider);
+
+  return {
+    name: "wallet",
+    signer,
+    provider,
+    getAddress: (): Promise<string> => signer.getAddress(),
+  };
+};
+
+/**
+ * Uses a plain Wallet when both an RPC url and private key are configured, otherwise the Defender Relayer.
+ *
+ * Locally these come from RPC_URL and PRIVATE_KEY in the .env file, in the Autotask from the RpcUrl
+ * and PrivateKey secrets.
+ */
+export const createSignerBackend = (event: IAutoRelayHandler): ISignerBackend => {
+  const rpcUrl = environment.runningLocally ? process.env.RPC_URL : event.secrets.RpcUrl;
+  const privateKey = environment.runningLocally ? process.env.PRIVATE_KEY : event.secrets.PrivateKey;
+
+  let backend: ISignerBackend;
+
+  if (rpcUrl && privateKey) {
+    backend = createWalletBackend(rpcUrl, privateKey);
+  } else {
+    backend = createDefenderBackend(event);
+  }
+
+  logMessage("Signer Helper", `using ${backend.name} signer`);
+
+  return backend;
+};
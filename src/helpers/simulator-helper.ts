@@ -0,0 +1,917 @@
+import { fetchAbis, getChainId, getContractAddress } from "./abi-helper";
+import { getSpotPrice as getPoolSpotPrice, IBacktestState, IBacktestStep } from "./backtest-helper";
+import { NetworkName } from "./config-helper";
+import { ContractFactory, fromWeiToNumber, ITransaction, ITransactionReceipt } from "./contracts-helper";
+import { createKeyValueHistoryStore, IHistoryStore } from "./history-helper";
+import { IPriceSource } from "./price-helper";
+import { ISignerBackend } from "./signer-helper";
+import { createMemoryStore, IKeyValueStore } from "./storage-helper";
+import { inGivenOut, outGivenIn, spotPrice } from "./weighted-math-helper";
+
+import { Provider } from "@ethersproject/providers";
+import { BigNumber, constants, Contract, Signer, VoidSigner } from "ethers";
+import { getAddress, hexConcat, hexlify, hexZeroPad, id, parseUnits } from "ethers/lib/utils";
+
+/**
+ * An in-memory chain implementing the contract methods the services use, so whole handler runs can be tested
+ * without a node:
+ *
+ *    const simulator = createSimulator("celo-test", state);
+ *    await handler(event, simulator);
+ *
+ * Writes are mined at once, each in its own block, and revert (throw) as the contracts would, such as for a lack
+ * of funds or allowance.  The blocks before the first are in the initial state, so the kCUR price samples the pool
+ * over the whole window from the first run.  Not simulated: the ProxyPool's own restrictions on when it trades, gas,
+ * and the Vault's pools other than the kCur Pool, such as the kGuilder Pool.
+ */
+
+export interface ISimulatorState extends IBacktestState {
+  /**
+   * the last report to the kCUR Oracle, default the pool spot price in $USD
+   */
+  kCurPrice?: number;
+  relayerKGuilderBalance?: number;
+  /**
+   * ProxyPool.ceilingMultiplier, times BPS, default 35000 for 3.5
+   */
+  ceilingMultiplier?: number;
+  relayerAddress?: string;
+  /**
+   * seconds since the epoch of the latest block, default now
+   */
+  timestamp?: number;
+  blockNumber?: number;
+  /**
+   * default 5, as on Celo
+   */
+  blockSeconds?: number;
+  /**
+   * Oracle.reportExpirationTime, default 12 hours
+   */
+  reportExpirationTime?: number;
+  /**
+   * SortedOracles.reportExpirySeconds, default 5 minutes
+   */
+  reportExpirySeconds?: number;
+}
+
+export interface ISimulatedTransaction {
+  hash: string;
+  from: string;
+  nonce: number;
+  blockNumber: number;
+  contractName: string;
+  to: string;
+  method: string;
+  args: Array<unknown>;
+}
+
+export interface ISimulator {
+  relayerAddress: string;
+  signerBackend: ISignerBackend;
+  contractFactory: ContractFactory;
+  /**
+   * where the handler keeps its state between the simulated runs
+   */
+  storage: IKeyValueStore;
+  /**
+   * the runs, kept in the storage
+   */
+  history: IHistoryStore;
+  /**
+   * the market's cUSD price, state.cUsdPrice, in place of CoinGecko and DefiLlama
+   */
+  cUsdPriceSources: Array<IPriceSource>;
+  /**
+   * every transaction mined, in order
+   */
+  transactions: Array<ISimulatedTransaction>;
+  /**
+   * @returns the balance in tokens
+   */
+  balanceOf(tokenName: SimulatedToken, holder: string): number;
+  /**
+   * the $USD price the Reserve values kCUR at, as last reported to the kCUR Oracle
+   */
+  getKCurOraclePrice(): number;
+  /**
+   * the median rate SortedOracles has for the token
+   */
+  getMedianRate(tokenName: SimulatedToken): number | undefined;
+  /**
+   * the kCur Pool spot price of kCUR in cUSD
+   */
+  getSpotPrice(): number;
+  /**
+   * a trade by the rest of the market, swapping into the kCur Pool
+   */
+  trade(trade: NonNullable<IBacktestStep["trade"]>): void;
+  /**
+   * mine empty blocks
+   */
+  advance(seconds: number): void;
+}
+
+export type SimulatedToken = "CuracaoReserveToken" | "KolektivoGuilder" | "cUSD";
+
+/**
+ * Vault SwapKind
+ */
+const GIVEN_IN = 0;
+const GIVEN_OUT = 1;
+
+/**
+ * SortedOracles rates and Mento prices have 24 decimals
+ */
+const FIXED1 = parseUnits("1", 24);
+
+/**
+ * Balancer's limits on a swap, as a percentage of the pool balance
+ */
+const MAX_IN_RATIO = 30;
+const MAX_OUT_RATIO = 30;
+
+const ratioOf = (balance: BigNumber, percentage: number): BigNumber => balance.mul(percentage).div(100);
+
+const toAmount = (value: number, decimals = 18): BigNumber => parseUnits(value.toFixed(decimals), decimals);
+
+const simulatedAddress = (n: number): string => getAddress(hexZeroPad(hexlify(n), 20));
+
+/**
+ * as ethers reports a revert when estimating the gas of the transaction
+ */
+const revert = (reason: string): never => {
+  throw new Error(`execution reverted: ${reason}`);
+};
+
+const ensure = (condition: boolean, reason: string): void => {
+  if (!condition) {
+    revert(reason);
+  }
+};
+
+interface IOracleReport {
+  timestamp: BigNumber;
+  payload: BigNumber;
+}
+
+interface ISortedOraclesReport {
+  value: BigNumber;
+  timestamp: number;
+}
+
+interface IBatchSwapStep {
+  poolId: string;
+  assetInIndex: number;
+  assetOutIndex: number;
+  amount: BigNumber;
+}
+
+interface IFundManagement {
+  sender: string;
+  recipient: string;
+}
+
+interface ISingleSwap {
+  poolId: string;
+  kind: number;
+  assetIn: string;
+  assetOut: string;
+  amount: BigNumber;
+}
+
+const median = (values: Array<BigNumber>): BigNumber => {
+  const sorted = [...values].sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : sorted[middle - 1].add(sorted[middle]).div(2);
+};
+
+/**
+ * @param network whose contract addresses to simulate
+ * @param state the initial state of the chain
+ */
+export const createSimulator = (network: NetworkName, state: ISimulatorState): ISimulator => {
+  fetchAbis(network);
+
+  const chainId = getChainId();
+  const relayerAddress = state.relayerAddress ?? simulatedAddress(0xa1);
+  /**
+   * holds whatever kCUR, kG and cUSD is not otherwise accounted for
+   */
+  const marketAddress = simulatedAddress(0xa2);
+  const kCurOracleAddress = simulatedAddress(0xa4);
+  const cUsdOracleAddress = simulatedAddress(0xa5);
+
+  const addresses = {
+    kCur: getContractAddress("CuracaoReserveToken"),
+    kGuilder: getContractAddress("KolektivoGuilder"),
+    cUsd: getContractAddress("cUSD"),
+    vault: getContractAddress("Vault"),
+    kCurPool: getContractAddress("kCur Pool"),
+    proxyPool: getContractAddress("ProxyPool"),
+    reserve: getContractAddress("Reserve"),
+    sortedOracles: getContractAddress("SortedOracles"),
+    mentoReserve: getContractAddress("MentoReserve"),
+  };
+  const tokenAddresses: Record<SimulatedToken, string> = {
+    CuracaoReserveToken: addresses.kCur,
+    KolektivoGuilder: addresses.kGuilder,
+    cUSD: addresses.cUsd,
+  };
+  const deployed = new Set(
+    [...Object.values(addresses), kCurOracleAddress, cUsdOracleAddress].map((address) => address.toLowerCase()),
+  );
+
+  const firstBlock = state.blockNumber ?? 1000000;
+  const firstTimestamp = state.timestamp ?? Math.floor(Date.now() / 1000);
+  const blockSeconds = state.blockSeconds ?? 5;
+  let blockNumber = firstBlock;
+  const getTimestamp = (block: number): number => firstTimestamp + (block - firstBlock) * blockSeconds;
+
+  /**
+   * ERC20 balances and allowances, by lower-case token address, then by lower-case holder or "owner:spender"
+   */
+  const balances = new Map<string, Map<string, BigNumber>>();
+  const allowances = new Map<string, Map<string, BigNumber>>();
+  const nonces = new Map<string, number>();
+  const receipts = new Map<string, ITransactionReceipt>();
+  const transactions: Array<ISimulatedTransaction> = [];
+
+  const ledger = (ledgers: Map<string, Map<string, BigNumber>>, token: string): Map<string, BigNumber> => {
+    let tokenLedger = ledgers.get(token.toLowerCase());
+    if (!tokenLedger) {
+      tokenLedger = new Map();
+      ledgers.set(token.toLowerCase(), tokenLedger);
+    }
+    return tokenLedger;
+  };
+  const getBalance = (token: string, holder: string): BigNumber =>
+    ledger(balances, token).get(holder.toLowerCase()) ?? constants.Zero;
+  const setBalance = (token: string, holder: string, amount: BigNumber): void => {
+    ledger(balances, token).set(holder.toLowerCase(), amount);
+  };
+  const getAllowance = (token: string, owner: string, spender: string): BigNumber =>
+    ledger(allowances, token).get(`${owner.toLowerCase()}:${spender.toLowerCase()}`) ?? constants.Zero;
+  const setAllowance = (token: string, owner: string, spender: string, amount: BigNumber): void => {
+    ledger(allowances, token).set(`${owner.toLowerCase()}:${spender.toLowerCase()}`, amount);
+  };
+  const totalSupply = (token: string): BigNumber =>
+    [...ledger(balances, token).values()].reduce((sum, balance) => sum.add(balance), constants.Zero);
+
+  const transfer = (token: string, from: string, to: string, amount: BigNumber): void => {
+    const balance = getBalance(token, from);
+    ensure(balance.gte(amount), "ERC20: transfer amount exceeds balance");
+    setBalance(token, from, balance.sub(amount));
+    setBalance(token, to, getBalance(token, to).add(amount));
+  };
+  const transferFrom = (token: string, spender: string, from: string, to: string, amount: BigNumber): void => {
+    const allowance = getAllowance(token, from, spender);
+    ensure(allowance.gte(amount), "ERC20: insufficient allowance");
+    if (!allowance.eq(constants.MaxUint256)) {
+      setAllowance(token, from, spender, allowance.sub(amount));
+    }
+    transfer(token, from, to, amount);
+  };
+
+  /**
+   * the kCur Pool, its tokens in the Vault's order, by address
+   */
+  const poolTokens = [addresses.kCur, addresses.cUsd].sort((a, b) => (a.toLowerCase() < b.toLowerCase() ? -1 : 1));
+  const poolWeights: Record<string, number> = {
+    [addresses.kCur.toLowerCase()]: state.pool.kCurWeight,
+    [addresses.cUsd.toLowerCase()]: state.pool.cUsdWeight,
+  };
+  const poolId = hexConcat([addresses.kCurPool, "0x0002", hexZeroPad("0x01", 10)]);
+  /**
+   * the Vault's balances of the kCur Pool tokens, by block, for reading at past blocks.  Blocks before the first
+   * have the balances of the first.
+   */
+  const poolHistory = new Map<number, Array<BigNumber>>();
+  const recordPoolBalances = (): void => {
+    poolHistory.set(
+      blockNumber,
+      poolTokens.map((token) => getBalance(token, addresses.vault)),
+    );
+  };
+
+  /**
+   * Oracle reports, by lower-case Oracle address, then by lower-case provider, the two most recent
+   */
+  const oracleReports = new Map<string, Map<string, Array<IOracleReport>>>([
+    [kCurOracleAddress.toLowerCase(), new Map()],
+    [cUsdOracleAddress.toLowerCase(), new Map()],
+  ]);
+  const oracleProviders = new Map<string, Set<string>>([
+    [kCurOracleAddress.toLowerCase(), new Set([relayerAddress.toLowerCase()])],
+    [cUsdOracleAddress.toLowerCase(), new Set([relayerAddress.toLowerCase()])],
+  ]);
+  const reportExpirationTime = state.reportExpirationTime ?? 60 * 60 * 12;
+  const pushOracleReport = (oracle: string, provider: string, payload: BigNumber): void => {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const reports = oracleReports.get(oracle.toLowerCase())!;
+    const providerReports = reports.get(provider.toLowerCase()) ?? [
+      { timestamp: constants.Zero, payload: constants.Zero },
+      { timestamp: constants.Zero, payload: constants.Zero },
+    ];
+    // overwrite the older of the two
+    const older = providerReports[0].timestamp.lt(providerReports[1].timestamp) ? 0 : 1;
+    providerReports[older] = { timestamp: BigNumber.from(getTimestamp(blockNumber)), payload };
+    reports.set(provider.toLowerCase(), providerReports);
+  };
+  /**
+   * @returns the median of the providers' most recent reports that have not expired, undefined when there are none
+   */
+  const getOracleData = (oracle: string): BigNumber | undefined => {
+    const now = getTimestamp(blockNumber);
+    const values: Array<BigNumber> = [];
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    for (const reports of oracleReports.get(oracle.toLowerCase())!.values()) {
+      const latest = reports[0].timestamp.gt(reports[1].timestamp) ? reports[0] : reports[1];
+      if (now - latest.timestamp.toNumber() <= reportExpirationTime) {
+        values.push(latest.payload);
+      }
+    }
+    return values.length ? median(values) : undefined;
+  };
+
+  /**
+   * SortedOracles rates, by lower-case token address, then by lower-case oracle
+   */
+  const sortedOraclesRates = new Map<string, Map<string, ISortedOraclesReport>>();
+  const sortedOraclesOracles = new Map<string, Set<string>>([
+    [addresses.kGuilder.toLowerCase(), new Set([relayerAddress.toLowerCase()])],
+  ]);
+  const reportExpirySeconds = state.reportExpirySeconds ?? 60 * 5;
+  const getRates = (token: string): Map<string, ISortedOraclesReport> => {
+    let rates = sortedOraclesRates.get(token.toLowerCase());
+    if (!rates) {
+      rates = new Map();
+      sortedOraclesRates.set(token.toLowerCase(), rates);
+    }
+    return rates;
+  };
+  /**
+   * @returns the rates ordered from greatest to least, as SortedOracles keeps them
+   */
+  const getSortedRates = (token: string): Array<[string, ISortedOraclesReport]> =>
+    [...getRates(token).entries()].sort(([, a], [, b]) => (a.value.gt(b.value) ? -1 : a.value.lt(b.value) ? 1 : 0));
+
+  /**
+   * initial state
+   */
+  setBalance(addresses.kCur, addresses.vault, toAmount(state.pool.kCurBalance));
+  setBalance(addresses.cUsd, addresses.vault, toAmount(state.pool.cUsdBalance));
+  setBalance(addresses.kCur, addresses.mentoReserve, toAmount(state.kCurMentoBalance));
+  setBalance(addresses.kCur, relayerAddress, toAmount(state.relayerKCurBalance));
+  setBalance(addresses.cUsd, relayerAddress, toAmount(state.relayerCUsdBalance));
+  setBalance(addresses.kGuilder, relayerAddress, toAmount(state.relayerKGuilderBalance ?? 0));
+  setBalance(
+    addresses.kCur,
+    marketAddress,
+    toAmount(
+      Math.max(0, state.kCurSupply - state.pool.kCurBalance - state.kCurMentoBalance - state.relayerKCurBalance),
+    ),
+  );
+  setBalance(
+    addresses.kGuilder,
+    marketAddress,
+    toAmount(Math.max(0, state.kGTotalSupply - (state.relayerKGuilderBalance ?? 0))),
+  );
+  /**
+   * the ProxyPool lets the Vault take what it swaps
+   */
+  setAllowance(addresses.kCur, addresses.proxyPool, addresses.vault, constants.MaxUint256);
+  setAllowance(addresses.cUsd, addresses.proxyPool, addresses.vault, constants.MaxUint256);
+  recordPoolBalances();
+  pushOracleReport(
+    kCurOracleAddress,
+    relayerAddress,
+    toAmount(state.kCurPrice ?? getPoolSpotPrice(state.pool) * state.cUsdPrice),
+  );
+  pushOracleReport(cUsdOracleAddress, relayerAddress, toAmount(state.cUsdPrice));
+
+  const provider = {
+    getNetwork: (): Promise<{ chainId: number; name: string }> => Promise.resolve({ chainId, name: network }),
+    getCode: (address: string): Promise<string> => Promise.resolve(deployed.has(address.toLowerCase()) ? "0x01" : "0x"),
+    getBlockNumber: (): Promise<number> => Promise.resolve(blockNumber),
+    getBlock: (blockTag: number | string): Promise<{ number: number; timestamp: number }> => {
+      const number = blockTag === "latest" ? blockNumber : Number(blockTag);
+      if (!Number.isInteger(number) || number < 0 || number > blockNumber) {
+        return Promise.reject(new Error(`block ${String(blockTag)} is not available`));
+      }
+      return Promise.resolve({ number, timestamp: getTimestamp(number) });
+    },
+    getTransactionReceipt: (hash: string): Promise<ITransactionReceipt | null> =>
+      Promise.resolve(receipts.get(hash) ?? null),
+    getTransactionCount: (address: string): Promise<number> => Promise.resolve(nonces.get(address.toLowerCase()) ?? 0),
+  } as unknown as Provider;
+
+  const signer = new VoidSigner(relayerAddress, provider);
+
+  /**
+   * Run the write and mine it in a new block, or throw when it reverts, leaving the state unchanged
+   */
+  const mine = (
+    from: string,
+    contractName: string,
+    to: string,
+    method: string,
+    args: Array<unknown>,
+    write: () => void,
+  ): ITransaction => {
+    /**
+     * so a revert halfway through changes nothing
+     */
+    const savedBalances = new Map([...balances].map(([token, holders]) => [token, new Map(holders)]));
+    const savedAllowances = new Map([...allowances].map(([token, holders]) => [token, new Map(holders)]));
+    try {
+      write();
+    } catch (ex) {
+      balances.clear();
+      savedBalances.forEach((holders, token) => balances.set(token, holders));
+      allowances.clear();
+      savedAllowances.forEach((holders, token) => allowances.set(token, holders));
+      throw ex;
+    }
+
+    const nonce = nonces.get(from.toLowerCase()) ?? 0;
+    nonces.set(from.toLowerCase(), nonce + 1);
+    ++blockNumber;
+    recordPoolBalances();
+
+    const hash = id(`${chainId}:${from.toLowerCase()}:${nonce}`);
+    const receipt = {
+      transactionHash: hash,
+      from,
+      to,
+      blockNumber,
+      status: 1,
+      confirmations: 1,
+      logs: [],
+    } as unknown as ITransactionReceipt;
+    receipts.set(hash, receipt);
+    transactions.push({ hash, from, nonce, blockNumber, contractName, to, method, args });
+
+    return {
+      hash,
+      from,
+      to,
+      nonce,
+      blockNumber,
+      chainId,
+      confirmations: 1,
+      wait: () => Promise.resolve(receipt),
+    } as unknown as ITransaction;
+  };
+
+  /**
+   * @returns a contract whose methods are the given reads, and the given writes mined by the signer
+   */
+  const createContract = (
+    contractName: string,
+    address: string,
+    contractSigner: Signer,
+    reads: Record<string, (...args: Array<never>) => unknown>,
+    writes: Record<string, (sender: string, ...args: Array<never>) => void> = {},
+    callStatic: Record<string, (...args: Array<never>) => unknown> = {},
+  ): Contract => {
+    const contract: Record<string, unknown> = { address, signer: contractSigner, provider };
+    for (const [method, read] of Object.entries(reads)) {
+      contract[method] = (...args: Array<never>): Promise<unknown> => Promise.resolve().then(() => read(...args));
+    }
+    for (const [method, write] of Object.entries(writes)) {
+      contract[method] = async (...args: Array<never>): Promise<ITransaction> => {
+        const from = await contractSigner.getAddress();
+        return mine(from, contractName, address, method, args, () => write(from, ...args));
+      };
+    }
+    contract.callStatic = Object.fromEntries(
+      Object.entries(callStatic).map(([method, call]) => [
+        method,
+        (...args: Array<never>): Promise<unknown> => Promise.resolve().then(() => call(...args)),
+      ]),
+    );
+    return contract as unknown as Contract;
+  };
+
+  const weightOf = (token: string): number => {
+    const weight = poolWeights[token.toLowerCase()] as number | undefined;
+    if (weight === undefined) {
+      return revert("BAL#521 TOKEN_NOT_REGISTERED");
+    }
+    return weight;
+  };
+
+  /**
+   * @returns the asset deltas of the swaps, positive is what the Vault takes in
+   */
+  const swap = (kind: number, steps: Array<IBatchSwapStep>, assets: Array<string>): Array<BigNumber> => {
+    const poolBalances = new Map(poolTokens.map((token) => [token.toLowerCase(), getBalance(token, addresses.vault)]));
+    const deltas = assets.map(() => constants.Zero);
+    const swapFee = toAmount(state.pool.swapFee);
+
+    for (const step of steps) {
+      ensure(step.poolId.toLowerCase() === poolId.toLowerCase(), "BAL#500 INVALID_POOL_ID");
+      const tokenIn = assets[step.assetInIndex];
+      const tokenOut = assets[step.assetOutIndex];
+      const balanceIn = poolBalances.get(tokenIn.toLowerCase());
+      const balanceOut = poolBalances.get(tokenOut.toLowerCase());
+      if (!balanceIn || !balanceOut || tokenIn.toLowerCase() === tokenOut.toLowerCase()) {
+        return revert("BAL#521 TOKEN_NOT_REGISTERED");
+      }
+      const poolTokenIn = { balance: balanceIn, weight: toAmount(weightOf(tokenIn)) };
+      const poolTokenOut = { balance: balanceOut, weight: toAmount(weightOf(tokenOut)) };
+      let amountIn: BigNumber;
+      let amountOut: BigNumber;
+
+      if (kind === GIVEN_IN) {
+        ensure(step.amount.lte(ratioOf(balanceIn, MAX_IN_RATIO)), "BAL#304 MAX_IN_RATIO");
+        amountIn = step.amount;
+        amountOut = outGivenIn(poolTokenIn, poolTokenOut, amountIn, swapFee);
+      } else {
+        ensure(step.amount.lte(ratioOf(balanceOut, MAX_OUT_RATIO)), "BAL#305 MAX_OUT_RATIO");
+        amountOut = step.amount;
+        amountIn = inGivenOut(poolTokenIn, poolTokenOut, amountOut, swapFee);
+      }
+
+      poolBalances.set(tokenIn.toLowerCase(), balanceIn.add(amountIn));
+      poolBalances.set(tokenOut.toLowerCase(), balanceOut.sub(amountOut));
+      deltas[step.assetInIndex] = deltas[step.assetInIndex].add(amountIn);
+      deltas[step.assetOutIndex] = deltas[step.assetOutIndex].sub(amountOut);
+    }
+
+    return deltas;
+  };
+
+  /**
+   * Vault.batchSwap on behalf of the sender: takes the positive deltas from funds.sender and sends
+   * the negative ones to funds.recipient.  The Vault only holds the kCur Pool, so its balances are the pool's.
+   */
+  const batchSwap = (
+    sender: string,
+    kind: number,
+    steps: Array<IBatchSwapStep>,
+    assets: Array<string>,
+    funds: IFundManagement,
+    limits: Array<BigNumber>,
+    deadline: BigNumber | number,
+  ): Array<BigNumber> => {
+    ensure(sender.toLowerCase() === funds.sender.toLowerCase(), "BAL#401 SENDER_NOT_ALLOWED");
+    ensure(BigNumber.from(deadline).gte(getTimestamp(blockNumber + 1)), "BAL#508 SWAP_DEADLINE");
+    const deltas = swap(kind, steps, assets);
+
+    deltas.forEach((delta, index) => {
+      ensure(delta.lte(limits[index]), "BAL#507 SWAP_LIMIT");
+      if (delta.gt(0)) {
+        transferFrom(assets[index], addresses.vault, funds.sender, addresses.vault, delta);
+      } else if (delta.lt(0)) {
+        transfer(assets[index], addresses.vault, funds.recipient, delta.mul(-1));
+      }
+    });
+    return deltas;
+  };
+
+  const createErc20 = (contractName: string, address: string, contractSigner: Signer): Contract =>
+    createContract(
+      contractName,
+      address,
+      contractSigner,
+      {
+        balanceOf: (account: string) => getBalance(address, account),
+        allowance: (owner: string, spender: string) => getAllowance(address, owner, spender),
+        totalSupply: () => totalSupply(address),
+        decimals: () => 18,
+      },
+      {
+        approve: (sender: string, spender: string, amount: BigNumber) => {
+          setAllowance(address, sender, spender, BigNumber.from(amount));
+        },
+        transfer: (sender: string, recipient: string, amount: BigNumber) => {
+          transfer(address, sender, recipient, BigNumber.from(amount));
+        },
+        transferFrom: (sender: string, from: string, recipient: string, amount: BigNumber) => {
+          transferFrom(address, sender, from, recipient, BigNumber.from(amount));
+        },
+      },
+    );
+
+  const createOracle = (address: string, contractSigner: Signer): Contract => {
+    const reports = oracleReports.get(address.toLowerCase());
+    if (!reports) {
+      throw new Error(`the simulator has no Oracle at ${address}`);
+    }
+    return createContract(
+      "Oracle",
+      address,
+      contractSigner,
+      {
+        providerReports: (provider: string, index: number) =>
+          reports.get(provider.toLowerCase())?.[Number(index)] ?? {
+            timestamp: constants.Zero,
+            payload: constants.Zero,
+          },
+        reportExpirationTime: () => BigNumber.from(reportExpirationTime),
+        getData: () => {
+          const data = getOracleData(address);
+          return [data ?? constants.Zero, data !== undefined];
+        },
+      },
+      {
+        pushReport: (sender: string, payload: BigNumber) => {
+          // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+          ensure(oracleProviders.get(address.toLowerCase())!.has(sender.toLowerCase()), "Oracle: invalid provider");
+          pushOracleReport(address, sender, BigNumber.from(payload));
+        },
+      },
+    );
+  };
+
+  const reserveStatus = (): Array<BigNumber> => {
+    const reserveValuation = toAmount(state.reserveValue);
+    const kCurPrice = getOracleData(kCurOracleAddress) ?? constants.Zero;
+    const supplyValuation = totalSupply(addresses.kCur).mul(kCurPrice).div(constants.WeiPerEther);
+    const backingRatio = supplyValuation.isZero()
+      ? constants.MaxUint256
+      : reserveValuation.mul(10000).div(supplyValuation);
+    return [reserveValuation, supplyValuation, backingRatio];
+  };
+
+  const contractFactory: ContractFactory = (contractName, address, _abi, contractSigner): Contract => {
+    switch (contractName) {
+      case "CuracaoReserveToken":
+      case "KolektivoGuilder":
+      case "cUSD":
+        return createErc20(contractName, address, contractSigner);
+      case "Oracle":
+        return createOracle(address, contractSigner);
+      case "Reserve":
+        return createContract(contractName, address, contractSigner, {
+          reserveStatus,
+          tokenOracle: () => kCurOracleAddress,
+          oraclePerERC20: (token: string) =>
+            token.toLowerCase() === addresses.cUsd.toLowerCase() ? cUsdOracleAddress : constants.AddressZero,
+        });
+      case "kCur Pool":
+        return createContract(contractName, address, contractSigner, {
+          getPoolId: () => poolId,
+          getNormalizedWeights: () => poolTokens.map((token) => toAmount(weightOf(token))),
+          getSwapFeePercentage: () => toAmount(state.pool.swapFee),
+        });
+      case "Vault":
+        return createContract(
+          contractName,
+          address,
+          contractSigner,
+          {
+            getPoolTokens: (id: string, overrides?: { blockTag?: number }) => {
+              ensure(id.toLowerCase() === poolId.toLowerCase(), "BAL#500 INVALID_POOL_ID");
+              const blockTag = overrides?.blockTag ?? blockNumber;
+              if (blockTag > blockNumber) {
+                throw new Error(`missing state for block ${blockTag}`);
+              }
+              const recorded = [...poolHistory.keys()].filter((block) => block <= blockTag);
+              const block = recorded.length ? Math.max(...recorded) : firstBlock;
+              return {
+                tokens: poolTokens,
+                // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+                balances: poolHistory.get(block)!,
+                lastChangeBlock: BigNumber.from(block),
+              };
+            },
+          },
+          {
+            batchSwap: (
+              sender: string,
+              kind: number,
+              steps: Array<IBatchSwapStep>,
+              assets: Array<string>,
+              funds: IFundManagement,
+              limits: Array<BigNumber>,
+              deadline: BigNumber,
+            ) => {
+              batchSwap(sender, kind, steps, assets, funds, limits, deadline);
+            },
+            /**
+             * the limit is the least out when given in, the most in when given out
+             */
+            swap: (
+              sender: string,
+              singleSwap: ISingleSwap,
+              funds: IFundManagement,
+              limit: BigNumber,
+              deadline: BigNumber,
+            ) => {
+              const amount = BigNumber.from(singleSwap.amount);
+              batchSwap(
+                sender,
+                singleSwap.kind,
+                [{ poolId: singleSwap.poolId, assetInIndex: 0, assetOutIndex: 1, amount }],
+                [singleSwap.assetIn, singleSwap.assetOut],
+                funds,
+                singleSwap.kind === GIVEN_IN
+                  ? [amount, BigNumber.from(limit).mul(-1)]
+                  : [BigNumber.from(limit), amount.mul(-1)],
+                deadline,
+              );
+            },
+          },
+          {
+            queryBatchSwap: (kind: number, steps: Array<IBatchSwapStep>, assets: Array<string>) =>
+              swap(kind, steps, assets),
+          },
+        );
+      case "ProxyPool":
+        return createContract(
+          contractName,
+          address,
+          contractSigner,
+          {
+            ceilingMultiplier: () => BigNumber.from(state.ceilingMultiplier ?? 35000),
+            vault: () => addresses.vault,
+          },
+          {
+            /**
+             * takes at most maxTotalAmountIn from the sender, returning what the swap didn't use
+             */
+            batchSwapExactOut: (
+              sender: string,
+              steps: Array<IBatchSwapStep>,
+              assets: Array<string>,
+              maxTotalAmountIn: BigNumber,
+              funds: IFundManagement,
+              limits: Array<BigNumber>,
+              deadline: BigNumber,
+            ) => {
+              transferFrom(assets[0], address, sender, address, BigNumber.from(maxTotalAmountIn));
+              const deltas = batchSwap(address, GIVEN_OUT, steps, assets, funds, limits, deadline);
+              transfer(assets[0], address, sender, BigNumber.from(maxTotalAmountIn).sub(deltas[0]));
+            },
+            batchSwapExactIn: (
+              sender: string,
+              steps: Array<IBatchSwapStep>,
+              assets: Array<string>,
+              amountIn: BigNumber,
+              minTotalAmountOut: BigNumber,
+              funds: IFundManagement,
+              limits: Array<BigNumber>,
+              deadline: BigNumber,
+            ) => {
+              transferFrom(assets[0], address, sender, address, BigNumber.from(amountIn));
+              const deltas = batchSwap(address, GIVEN_IN, steps, assets, funds, limits, deadline);
+              ensure(deltas[1].mul(-1).gte(minTotalAmountOut), "ProxyPool: insufficient amount out");
+            },
+          },
+        );
+      case "SortedOracles":
+        return createContract(
+          contractName,
+          address,
+          contractSigner,
+          {
+            isOracle: (token: string, oracle: string) =>
+              sortedOraclesOracles.get(token.toLowerCase())?.has(oracle.toLowerCase()) ?? false,
+            numRates: (token: string) => BigNumber.from(getRates(token).size),
+            medianRate: (token: string) => {
+              const rates = [...getRates(token).values()];
+              return rates.length
+                ? [median(rates.map((rate) => rate.value)), FIXED1]
+                : [constants.Zero, constants.Zero];
+            },
+            /**
+             * SortedOracles also returns the relation of each rate to the median, which the services don't use
+             */
+            getRates: (token: string) => {
+              const sorted = getSortedRates(token);
+              return [sorted.map(([oracle]) => getAddress(oracle)), sorted.map(([, rate]) => rate.value), []];
+            },
+            getTimestamps: (token: string) => {
+              const sorted = [...getRates(token).entries()].sort(([, a], [, b]) => b.timestamp - a.timestamp);
+              return [
+                sorted.map(([oracle]) => getAddress(oracle)),
+                sorted.map(([, rate]) => BigNumber.from(rate.timestamp)),
+                [],
+              ];
+            },
+            reportExpirySeconds: () => BigNumber.from(reportExpirySeconds),
+            getTokenReportExpirySeconds: () => BigNumber.from(reportExpirySeconds),
+          },
+          {
+            /**
+             * the lesser and greater keys must be the neighbours of the value once the sender's own rate is taken out,
+             * AddressZero for none
+             */
+            report: (sender: string, token: string, value: BigNumber, lesserKey: string, greaterKey: string) => {
+              ensure(
+                sortedOraclesOracles.get(token.toLowerCase())?.has(sender.toLowerCase()) ?? false,
+                "sender was not an oracle for token addr",
+              );
+              const others = getSortedRates(token).filter(([oracle]) => oracle !== sender.toLowerCase());
+              const index = others.findIndex(([, rate]) => rate.value.lt(value));
+              const lesser = index < 0 ? constants.AddressZero : getAddress(others[index][0]);
+              const greater =
+                index === 0 || !others.length
+                  ? constants.AddressZero
+                  : getAddress(others[(index < 0 ? others.length : index) - 1][0]);
+              ensure(
+                lesser === getAddress(lesserKey) && greater === getAddress(greaterKey),
+                "get lesser and greater failure",
+              );
+              getRates(token).set(sender.toLowerCase(), {
+                value: BigNumber.from(value),
+                timestamp: getTimestamp(blockNumber + 1),
+              });
+            },
+            removeExpiredReports: (_sender: string, token: string, n: BigNumber) => {
+              const rates = getRates(token);
+              const oldestFirst = [...rates.entries()].sort(([, a], [, b]) => a.timestamp - b.timestamp);
+              const now = getTimestamp(blockNumber + 1);
+              for (const [oracle, rate] of oldestFirst.slice(0, Math.min(Number(n), rates.size - 1))) {
+                if (now - rate.timestamp < reportExpirySeconds) {
+                  break;
+                }
+                rates.delete(oracle);
+              }
+            },
+          },
+        );
+      case "MentoReserve":
+        return createContract(
+          contractName,
+          address,
+          contractSigner,
+          {
+            getUnfrozenBalance: () => getBalance(addresses.kCur, address),
+          },
+          {
+            transferExchangeGold: (sender: string, to: string, amount: BigNumber) => {
+              ensure(sender.toLowerCase() === relayerAddress.toLowerCase(), "Address not allowed to spend");
+              transfer(addresses.kCur, address, to, BigNumber.from(amount));
+            },
+          },
+        );
+      default:
+        throw new Error(`the simulator has no ${contractName}`);
+    }
+  };
+
+  const storage = createMemoryStore();
+
+  const getSpotPrice = (): number => {
+    const [kCur, cUsd] = [addresses.kCur, addresses.cUsd].map((token) => ({
+      balance: getBalance(token, addresses.vault),
+      weight: toAmount(weightOf(token)),
+    }));
+    return fromWeiToNumber(spotPrice(cUsd, kCur), 18);
+  };
+
+  return {
+    relayerAddress,
+    signerBackend: {
+      name: "simulator",
+      signer,
+      provider,
+      getAddress: (): Promise<string> => Promise.resolve(relayerAddress),
+    },
+    contractFactory,
+    storage,
+    history: createKeyValueHistoryStore(storage, 100),
+    cUsdPriceSources: [{ name: "Simulator", getPrice: (): Promise<number> => Promise.resolve(state.cUsdPrice) }],
+    transactions,
+    balanceOf: (tokenName: SimulatedToken, holder: string): number =>
+      fromWeiToNumber(getBalance(tokenAddresses[tokenName], holder), 18),
+    getKCurOraclePrice: (): number => fromWeiToNumber(getOracleData(kCurOracleAddress) ?? constants.Zero, 18),
+    getMedianRate: (tokenName: SimulatedToken): number | undefined => {
+      const rates = [...getRates(tokenAddresses[tokenName]).values()];
+      return rates.length ? fromWeiToNumber(median(rates.map((rate) => rate.value)), 24) : undefined;
+    },
+    getSpotPrice,
+    trade: ({ kCurIn, cUsdIn }): void => {
+      const [tokenIn, tokenOut, amount] = kCurIn
+        ? [addresses.kCur, addresses.cUsd, kCurIn]
+        : [addresses.cUsd, addresses.kCur, cUsdIn ?? 0];
+      const assets = [tokenIn, tokenOut];
+      const amountIn = toAmount(amount);
+      // the market mints whatever it lacks
+      const marketBalance = getBalance(tokenIn, marketAddress);
+      if (marketBalance.lt(amountIn)) {
+        setBalance(tokenIn, marketAddress, amountIn);
+      }
+      setAllowance(tokenIn, marketAddress, addresses.vault, amountIn);
+      mine(marketAddress, "Vault", addresses.vault, "batchSwap", [], () => {
+        batchSwap(
+          marketAddress,
+          GIVEN_IN,
+          [{ poolId, assetInIndex: 0, assetOutIndex: 1, amount: amountIn }],
+          assets,
+          { sender: marketAddress, recipient: marketAddress },
+          [amountIn, constants.Zero],
+          constants.MaxUint256,
+        );
+      });
+    },
+    advance: (seconds: number): void => {
+      blockNumber += Math.ceil(seconds / blockSeconds);
+      recordPoolBalances();
+    },
+  };
+};
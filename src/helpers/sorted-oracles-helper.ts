@@ -0,0 +1,294 @@
+import { fromWeiToNumber, ITransaction, toWei } from "./contracts-helper";
+import { logMessage, logWarning } from "./errors-helper";
+import { median } from "./price-helper";
+import { recordInput } from "./report-helper";
+import { getHeartbeatSeconds, IOracleReportingPolicy } from "./reserve-helper";
+import { waitForTransaction } from "./tracker-helper";
+import { sendTransaction } from "./transactions-helper";
+
+import { BigNumber, constants } from "ethers";
+import { Contract } from "ethers/lib/ethers";
+
+/**
+ * Reporting rates to Mento SortedOracles, see https://github.com/mento-protocol/mento-core/blob/main/contracts/oracles/SortedOracles.sol
+ *
+ * SortedOracles keeps one report per oracle in a list sorted by rate, each rate a fraction with 24 decimals.
+ * A report gives the oracles whose rates are just less and just greater than the new rate, the "lesser" and "greater"
+ * keys, where it goes in the list once the oracle's own previous report is taken out.
+ */
+
+export const SORTED_ORACLES_DECIMALS = 24;
+
+export interface ISortedOraclesRate {
+  oracle: string;
+  /**
+   * 24 decimals
+   */
+  value: BigNumber;
+  /**
+   * seconds since the epoch
+   */
+  timestamp: number;
+}
+
+export interface ISortedOraclesReportingPolicy extends IOracleReportingPolicy {
+  /**
+   * refuse to report a rate further than this fraction from the median of the other oracles' current rates, or, when
+   * no other oracle has a current rate, from our own last report or else the SortedOracles median
+   */
+  maxJump: number;
+}
+
+export interface IInsertionKeys {
+  lesserKey: string;
+  greaterKey: string;
+}
+
+/**
+ * @param rates the current rates, ordered from greatest to least as SortedOracles.getRates returns them
+ * @param value the new rate
+ * @param reporter the oracle reporting, whose previous report is replaced
+ * @returns the keys to report the value with, AddressZero when there is no lesser or greater rate
+ */
+export const getInsertionKeys = (
+  rates: Array<ISortedOraclesRate>,
+  value: BigNumber,
+  reporter: string,
+): IInsertionKeys => {
+  let greaterKey: string = constants.AddressZero;
+  for (const rate of rates) {
+    if (rate.oracle.toLowerCase() === reporter.toLowerCase()) {
+      continue;
+    }
+    if (rate.value.lt(value)) {
+      return { lesserKey: rate.oracle, greaterKey };
+    }
+    greaterKey = rate.oracle;
+  }
+  return { lesserKey: constants.AddressZero, greaterKey };
+};
+
+/**
+ * @returns the rates with their timestamps, ordered from greatest to least
+ */
+const getSortedRates = async (sortedOracles: Contract, tokenAddress: string): Promise<Array<ISortedOraclesRate>> => {
+  const [[rateOracles, values], [timestampOracles, timestamps]] = (await Promise.all([
+    sortedOracles.getRates(tokenAddress),
+    sortedOracles.getTimestamps(tokenAddress),
+  ])) as Array<[Array<string>, Array<BigNumber>]>;
+
+  return rateOracles.map((oracle, index) => {
+    const timestampIndex = timestampOracles.findIndex((candidate) => candidate.toLowerCase() === oracle.toLowerCase());
+    return { oracle, value: values[index], timestamp: timestamps[timestampIndex].toNumber() };
+  });
+};
+
+/**
+ * SortedOracles.removeExpiredReports removes the oldest reports first, and always leaves at least one
+ *
+ * @returns the rates that will be left once the expired reports are removed, and how many to remove
+ */
+const findExpiredReports = (
+  rates: Array<ISortedOraclesRate>,
+  now: number,
+  expirySeconds: number,
+): { remaining: Array<ISortedOraclesRate>; expired: number } => {
+  const oldestFirst = [...rates].sort((a, b) => a.timestamp - b.timestamp);
+  let expired = 0;
+  while (expired < oldestFirst.length - 1 && now - oldestFirst[expired].timestamp >= expirySeconds) {
+    ++expired;
+  }
+  const removed = new Set(oldestFirst.slice(0, expired).map((rate) => rate.oracle.toLowerCase()));
+  return { remaining: rates.filter((rate) => !removed.has(rate.oracle.toLowerCase())), expired };
+};
+
+interface IJumpReference {
+  rate: number;
+  /**
+   * for logging
+   */
+  description: string;
+}
+
+/**
+ * The rate the maximum jump is measured from: the median of the other oracles' rates that have not expired.  Our own
+ * previous report is left out of that, else once the market has moved further than maxJump the reference would only
+ * ever be the rate we are failing to replace.  When no other oracle has a current rate, such as when the Relayer is the
+ * only oracle, our own last report, else the current median.
+ *
+ * @returns undefined when SortedOracles has no rate at all to measure from
+ */
+const getJumpReference = (
+  remaining: Array<ISortedOraclesRate>,
+  reporter: string,
+  lastReport: ISortedOraclesRate | undefined,
+  currentMedian: number | undefined,
+  now: number,
+  expirySeconds: number,
+  tokenName: string,
+): IJumpReference | undefined => {
+  const others = remaining.filter(
+    (candidate) =>
+      candidate.oracle.toLowerCase() !== reporter.toLowerCase() &&
+      !(expirySeconds && now - candidate.timestamp >= expirySeconds),
+  );
+  if (others.length) {
+    return {
+      rate: median(others.map((candidate) => fromWeiToNumber(candidate.value, SORTED_ORACLES_DECIMALS))),
+      description: `the median of the other oracles' ${tokenName} rates`,
+    };
+  }
+  if (lastReport) {
+    return {
+      rate: fromWeiToNumber(lastReport.value, SORTED_ORACLES_DECIMALS),
+      description: `the Relayer's last ${tokenName} report, no other oracle having a current rate`,
+    };
+  }
+  if (currentMedian !== undefined) {
+    return { rate: currentMedian, description: `the SortedOracles ${tokenName} median` };
+  }
+  return undefined;
+};
+
+interface IReportDecision {
+  report: boolean;
+  reason: string;
+}
+
+const decideToReport = (
+  rate: number,
+  lastReport: ISortedOraclesRate | undefined,
+  now: number,
+  expirySeconds: number,
+  policy: IOracleReportingPolicy,
+): IReportDecision => {
+  if (!lastReport) {
+    return { report: true, reason: "there is no previous report" };
+  }
+
+  /**
+   * don't let the report expire, which would leave SortedOracles without our rate
+   */
+  const heartbeatSeconds = getHeartbeatSeconds(policy, expirySeconds);
+  const lastRate = fromWeiToNumber(lastReport.value, SORTED_ORACLES_DECIMALS);
+  const age = now - lastReport.timestamp;
+  const deviation = Math.abs(rate - lastRate) / lastRate;
+
+  if (deviation > policy.deviationThreshold) {
+    return {
+      report: true,
+      reason: `rate deviates ${deviation * 100}% from the last report (${lastRate}), more than ${
+        policy.deviationThreshold * 100
+      }%`,
+    };
+  }
+
+  if (age >= heartbeatSeconds) {
+    return {
+      report: true,
+      reason: `the last report is ${age} seconds old, the heartbeat is ${heartbeatSeconds} seconds`,
+    };
+  }
+
+  return {
+    report: false,
+    reason: `rate deviates ${deviation * 100}% from the last report (${lastRate}), within ${
+      policy.deviationThreshold * 100
+    }%, and the last report is ${age} seconds old, within the heartbeat of ${heartbeatSeconds} seconds`,
+  };
+};
+
+/**
+ * Report the rate to SortedOracles, but only if the policy says it is time to.  First confirms the Relayer is an
+ * oracle for the token and removes any expired reports.  Throws when the Relayer is not an oracle, or the rate
+ * is further than the policy's maximum jump from the reference rate, see getJumpReference.
+ *
+ * @param tokenName for logging
+ * @param rate
+ * @returns undefined when the report is skipped, or when running in dry-run mode
+ */
+export const reportToSortedOracles = async (
+  sortedOracles: Contract,
+  tokenName: string,
+  tokenAddress: string,
+  rate: number,
+  policy: ISortedOraclesReportingPolicy,
+  serviceName: string,
+): Promise<ITransaction | undefined> => {
+  const reporter = await sortedOracles.signer.getAddress();
+
+  if (!(await sortedOracles.isOracle(tokenAddress, reporter))) {
+    throw new Error(`The Relayer (${reporter}) is not a SortedOracles oracle for ${tokenName}, cannot report`);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  const now = (await sortedOracles.provider.getBlock("latest")).timestamp;
+  const expirySeconds = ((await sortedOracles.getTokenReportExpirySeconds(tokenAddress)) as BigNumber).toNumber();
+  const rates = await getSortedRates(sortedOracles, tokenAddress);
+  const [numerator, denominator] = (await sortedOracles.medianRate(tokenAddress)) as Array<BigNumber>;
+  const currentMedian = denominator.isZero()
+    ? undefined
+    : fromWeiToNumber(numerator.mul(constants.WeiPerEther).div(denominator), 18);
+
+  logMessage(
+    serviceName,
+    `SortedOracles has ${rates.length} ${tokenName} rates, median: ${
+      currentMedian ?? "none"
+    }, expiry: ${expirySeconds}`,
+  );
+  recordInput(serviceName, "sortedOraclesRates", rates.length);
+  recordInput(serviceName, "sortedOraclesMedianRate", currentMedian);
+
+  const { remaining, expired } = findExpiredReports(rates, now, expirySeconds);
+  if (expired) {
+    logMessage(serviceName, `Removing ${expired} expired ${tokenName} reports from SortedOracles`);
+    const tx = await sendTransaction(
+      serviceName,
+      sortedOracles,
+      "SortedOracles",
+      "removeExpiredReports",
+      [tokenAddress, expired],
+      `${expired} ${tokenName} reports are older than the report expiry of ${expirySeconds} seconds`,
+    );
+    if (tx) {
+      // await because the keys of the report assume the expired reports are gone
+      await waitForTransaction(tx, "SortedOracles removeExpiredReports");
+    }
+  }
+
+  const lastReport = remaining.find((candidate) => candidate.oracle.toLowerCase() === reporter.toLowerCase());
+  const { report, reason } = decideToReport(rate, lastReport, now, expirySeconds, policy);
+
+  if (!report) {
+    logMessage(serviceName, `Skipping report of ${rate} to SortedOracles: ${reason}`);
+    return undefined;
+  }
+
+  const reference = getJumpReference(remaining, reporter, lastReport, currentMedian, now, expirySeconds, tokenName);
+  if (reference) {
+    const jump = Math.abs(rate - reference.rate) / reference.rate;
+    if (jump > policy.maxJump) {
+      throw new Error(
+        `Refusing to report ${rate} to SortedOracles: it is ${jump * 100}% from ${reference.description} (${
+          reference.rate
+        }), more than the allowed ${policy.maxJump * 100}%`,
+      );
+    }
+  } else {
+    logWarning(serviceName, `SortedOracles has no ${tokenName} rate yet, skipping the maximum jump check`);
+  }
+
+  const value = toWei(rate, SORTED_ORACLES_DECIMALS);
+  const { lesserKey, greaterKey } = getInsertionKeys(remaining, value, reporter);
+
+  logMessage(serviceName, `Reporting ${rate} to SortedOracles: ${reason}`);
+
+  return sendTransaction(
+    serviceName,
+    sortedOracles,
+    "SortedOracles",
+    "report",
+    [tokenAddress, value, lesserKey, greaterKey],
+    `report ${tokenName} rate of ${rate}, ${reason}`,
+  );
+};
@@ -0,0 +1,116 @@
+import { environment } from "../globals";
+
+import { IAutoRelayHandler } from "./abi-helper";
+import { logMessage } from "./errors-helper";
+import { getRunState } from "./run-helper";
+
+import { KeyValueStoreClient } from "defender-kvstore-client";
+import fs from "fs";
+
+/**
+ * A place to keep state between runs
+ */
+export interface IKeyValueStore {
+  get(key: string): Promise<string | undefined>;
+  put(key: string, value: string): Promise<void>;
+  del(key: string): Promise<void>;
+}
+
+/**
+ * A JSON file of keys and values, for running locally
+ */
+const createLocalFileStore = (path: string): IKeyValueStore => {
+  const read = (): Record<string, string> => {
+    return fs.existsSync(path) ? (JSON.parse(fs.readFileSync(path, "utf8")) as Record<string, string>) : {};
+  };
+
+  const write = (values: Record<string, string>): void => {
+    fs.writeFileSync(path, JSON.stringify(values, undefined, 2));
+  };
+
+  return {
+    get: (key: string): Promise<string | undefined> => Promise.resolve(read()[key]),
+    put: (key: string, value: string): Promise<void> => {
+      const values = read();
+      values[key] = value;
+      write(values);
+      return Promise.resolve();
+    },
+    del: (key: string): Promise<void> => {
+      const values = read();
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete values[key];
+      write(values);
+      return Promise.resolve();
+    },
+  };
+};
+
+/**
+ * Keys and values kept only as long as the process, such as for simulated runs
+ */
+export const createMemoryStore = (): IKeyValueStore => {
+  const values = new Map<string, string>();
+
+  return {
+    get: (key: string): Promise<string | undefined> => Promise.resolve(values.get(key)),
+    put: (key: string, value: string): Promise<void> => {
+      values.set(key, value);
+      return Promise.resolve();
+    },
+    del: (key: string): Promise<void> => {
+      values.delete(key);
+      return Promise.resolve();
+    },
+  };
+};
+
+/**
+ * The Autotask's key-value store, see https://docs.openzeppelin.com/defender/autotasks#kvstore
+ */
+const createDefenderStore = (event: IAutoRelayHandler): IKeyValueStore => {
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  return new KeyValueStoreClient({ credentials: event.credentials!, kvstoreARN: event.kvstoreARN! });
+};
+
+/**
+ * Set up the storage of the current run
+ *
+ * @param event
+ * @param client optionally supply your own store
+ */
+export const initializeStorage = (event: IAutoRelayHandler, client?: IKeyValueStore): void => {
+  const runState = getRunState();
+  if (!runState) {
+    throw new Error("storage can only be initialized within a run");
+  }
+  if (client) {
+    runState.storage = client;
+  } else if (environment.runningLocally || !event.kvstoreARN) {
+    const path = process.env.KVSTORE_PATH ?? "kvstore.json";
+    logMessage("Storage Helper", `using local file store: ${path}`);
+    runState.storage = createLocalFileStore(path);
+  } else {
+    runState.storage = createDefenderStore(event);
+  }
+};
+
+export const getStorage = (): IKeyValueStore => {
+  const store = getRunState()?.storage;
+  if (!store) {
+    throw new Error("storage has not been initialized");
+  }
+  return store;
+};
+
+/**
+ * @returns undefined if there is no value for the key
+ */
+export const getStoredJson = async <T>(key: string): Promise<T | undefined> => {
+  const value = await getStorage().get(key);
+  return value ? (JSON.parse(value) as T) : undefined;
+};
+
+export const putStoredJson = <T>(key: string, value: T): Promise<void> => {
+  return getStorage().put(key, JSON.stringify(value));
+};
@@ -1,11 +1,10 @@
 import { fromWei, fromWeiToNumber, getContract, ITransaction, ITransactionReceipt } from "./contracts-helper";
 import { logMessage } from "./errors-helper";
-import { sendNotification } from "./notifications-helper";
+import { setGauge } from "./metrics-helper";
+import { waitForTransaction } from "./tracker-helper";
+import { sendTransaction } from "./transactions-helper";
 
-import { DefenderRelaySigner } from "defender-relay-client/lib/ethers";
-import { BigNumber, BigNumberish } from "ethers/lib/ethers";
-
-const MIN_TOKENBALANCE = 50;
+import { BigNumber, BigNumberish, Signer } from "ethers/lib/ethers";
 
 export interface IErc20Token {
   address: string;
@@ -17,35 +16,31 @@ export interface IErc20Token {
   transferFrom(sender: string, recipient: string, amount: BigNumberish): Promise<ITransaction>; // boolean
 }
 
-const reportShortfall = (balance: number, tokenName: string): void => {
-  const message = `Relayer token balances: ${tokenName} (${balance}) has fallen below the minimum value of ${MIN_TOKENBALANCE}`;
-  // eslint-disable-next-line no-console
-  console.warn(message);
-  sendNotification("Insufficient funds for Kolektivo Service", message);
-};
-
-export const confirmTokenBalances = async (owner: string, signer: DefenderRelaySigner): Promise<void> => {
+/**
+ * Read the Relayer's balances for the run report and the metrics.  Low balances are topped up, or funding
+ * requested, by inventory-service.
+ *
+ * @returns the balances, by token name
+ */
+export const confirmTokenBalances = async (owner: string, signer: Signer): Promise<Record<string, number>> => {
+  const balances: Record<string, number> = {};
   const kCurContract = getContract("CuracaoReserveToken", signer);
 
   let balance = fromWeiToNumber(await kCurContract.balanceOf(owner), 18);
-
-  if (balance < MIN_TOKENBALANCE) {
-    reportShortfall(balance, "kCUR");
-  }
+  balances.kCUR = balance;
+  setGauge("kolektivo_relayer_balance", balance, { token: "kCUR" });
 
   const kGuilderContract = getContract("KolektivoGuilder", signer);
   balance = fromWeiToNumber(await kGuilderContract.balanceOf(owner), 18);
-
-  if (balance < MIN_TOKENBALANCE) {
-    reportShortfall(balance, "KolektivoGuilder");
-  }
+  balances.KolektivoGuilder = balance;
+  setGauge("kolektivo_relayer_balance", balance, { token: "KolektivoGuilder" });
 
   const cUsdContract = getContract("cUSD", signer);
   balance = fromWeiToNumber(await cUsdContract.balanceOf(owner), 18);
+  balances.cUSD = balance;
+  setGauge("kolektivo_relayer_balance", balance, { token: "cUSD" });
 
-  if (balance < MIN_TOKENBALANCE) {
-    reportShortfall(balance, "cUSD");
-  }
+  return balances;
 };
 
 /**
@@ -53,7 +48,7 @@ export const confirmTokenBalances = async (owner: string, signer: DefenderRelayS
  * but only if the allowance is needed.
  */
 export const createAllowance = async (
-  signer: DefenderRelaySigner,
+  signer: Signer,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   tokenContract: any,
   tokenContractName: string,
@@ -76,15 +71,26 @@ export const createAllowance = async (
     /**
      * The Relayer will always be the owner (msg.sender)
      */
-    const tx = (await tokenContract.approve(spenderAddress, maxPayAmount)) as ITransaction;
+    const tx: ITransaction | undefined = await sendTransaction(
+      serviceName,
+      tokenContract,
+      tokenContractName,
+      "approve",
+      [spenderAddress, maxPayAmount],
+      `allow ${spenderAddress} to spend ${fromWei(maxPayAmount, 18)} ${tokenContractName} on behalf of the Relayer`,
+    );
+
+    if (!tx) {
+      // dry run
+      return undefined;
+    }
 
     /**
-     * see this: https://www.npmjs.com/package/defender-relay-client,
+     * the caller will want this to be mined before relying on the resulting allowance.
+     * Not tx.wait(), see this: https://www.npmjs.com/package/defender-relay-client,
      * the "Limitations" section under "ethers.js"
-     *
-     * the caller will want this to be mined before relying on the resulting allowance
      */
-    txReceipt = await tx.wait();
+    txReceipt = await waitForTransaction(tx, `${tokenContractName} approval`);
   }
   logMessage(
     serviceName,
@@ -0,0 +1,167 @@
+import { getConfig } from "./config-helper";
+import { ITransaction, ITransactionReceipt } from "./contracts-helper";
+import { logMessage, logWarning } from "./errors-helper";
+import { recordTransactionOutcome } from "./report-helper";
+import { getRunState } from "./run-helper";
+import { ISignerBackend } from "./signer-helper";
+
+/**
+ * "mined": mined and succeeded
+ * "failed": mined and reverted, or Defender gave up on it
+ * "dropped": never mined before the timeout, or its nonce was taken by another transaction
+ */
+export type TransactionStatus = "mined" | "failed" | "dropped";
+
+export interface ITransactionOutcome {
+  status: TransactionStatus;
+  /**
+   * hash of the transaction that was finally mined, or last known, which differs from the original hash
+   * when Defender repriced and replaced the transaction
+   */
+  hash: string;
+  transactionId?: string;
+  receipt?: ITransactionReceipt;
+  /**
+   * why the transaction failed or was dropped
+   */
+  reason?: string;
+}
+
+/**
+ * Follow the transactions of the current run with the backend that signed them
+ */
+export const initializeTransactionTracking = (backend: ISignerBackend): void => {
+  const runState = getRunState();
+  if (!runState) {
+    throw new Error("transaction tracking can only be initialized within a run");
+  }
+  runState.signerBackend = backend;
+};
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+const getBackend = (): ISignerBackend => {
+  const signerBackend = getRunState()?.signerBackend;
+  if (!signerBackend) {
+    throw new Error("transaction tracking has not been initialized");
+  }
+  return signerBackend;
+};
+
+const outcomeFromReceipt = (receipt: ITransactionReceipt, transactionId?: string): ITransactionOutcome => {
+  return receipt.status === 0
+    ? { status: "failed", hash: receipt.transactionHash, transactionId, receipt, reason: "reverted" }
+    : { status: "mined", hash: receipt.transactionHash, transactionId, receipt };
+};
+
+/**
+ * Poll the Defender Relayer for the current hash and status of the transaction, following replacements
+ */
+const trackRelayerTransaction = async (tx: ITransaction, transactionId: string): Promise<ITransactionOutcome> => {
+  const backend = getBackend();
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  const relayer = backend.relayer!;
+  const { txTimeoutSeconds, txPollIntervalSeconds } = getConfig();
+  const deadline = Date.now() + txTimeoutSeconds * 1000;
+  let hash = tx.hash;
+  let status = "unknown";
+
+  while (Date.now() < deadline) {
+    const relayerTx = await relayer.query(transactionId);
+    status = relayerTx.status;
+
+    if (relayerTx.hash !== hash) {
+      logMessage("Tracker Helper", `transaction ${transactionId} was replaced: ${hash} -> ${relayerTx.hash}`);
+      hash = relayerTx.hash;
+    }
+
+    if (status === "mined" || status === "confirmed") {
+      const receipt = await backend.provider.getTransactionReceipt(hash);
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      if (receipt) {
+        return outcomeFromReceipt(receipt, transactionId);
+      }
+    } else if (status === "failed") {
+      return { status: "failed", hash, transactionId, reason: "the Relayer reports the transaction failed" };
+    }
+
+    await sleep(txPollIntervalSeconds * 1000);
+  }
+
+  return {
+    status: "dropped",
+    hash,
+    transactionId,
+    reason: `not mined within ${txTimeoutSeconds} seconds, last status: ${status}`,
+  };
+};
+
+/**
+ * Poll the provider for the receipt, noticing when the nonce was taken by another transaction
+ */
+const trackProviderTransaction = async (tx: ITransaction): Promise<ITransactionOutcome> => {
+  const provider = getBackend().provider;
+  const { txTimeoutSeconds, txPollIntervalSeconds } = getConfig();
+  const deadline = Date.now() + txTimeoutSeconds * 1000;
+
+  while (Date.now() < deadline) {
+    const receipt = await provider.getTransactionReceipt(tx.hash);
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+    if (receipt) {
+      return outcomeFromReceipt(receipt);
+    }
+
+    if ((await provider.getTransactionCount(tx.from, "latest")) > tx.nonce) {
+      /**
+       * the nonce may have been mined just now, so check once more
+       */
+      const lateReceipt = await provider.getTransactionReceipt(tx.hash);
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      if (lateReceipt) {
+        return outcomeFromReceipt(lateReceipt);
+      }
+      return { status: "dropped", hash: tx.hash, reason: `nonce ${tx.nonce} was used by another transaction` };
+    }
+
+    await sleep(txPollIntervalSeconds * 1000);
+  }
+
+  return { status: "dropped", hash: tx.hash, reason: `not mined within ${txTimeoutSeconds} seconds` };
+};
+
+/**
+ * Follow the transaction until it is mined, fails or is dropped.
+ *
+ * With Defender the transaction is tracked by its transactionId, which survives Defender repricing
+ * and replacing it, unlike tx.wait(), which only waits on the original hash.
+ */
+export const trackTransaction = async (tx: ITransaction): Promise<ITransactionOutcome> => {
+  const outcome =
+    tx.transactionId && getBackend().relayer
+      ? await trackRelayerTransaction(tx, tx.transactionId)
+      : await trackProviderTransaction(tx);
+
+  if (outcome.status === "mined") {
+    logMessage("Tracker Helper", `transaction ${outcome.hash} was mined`);
+  } else {
+    logWarning("Tracker Helper", `transaction ${outcome.hash} ${outcome.status}: ${outcome.reason ?? ""}`);
+  }
+
+  recordTransactionOutcome(tx.hash, outcome);
+
+  return outcome;
+};
+
+/**
+ * For when a service is about to rely on the transaction's state change
+ *
+ * @param description what the transaction does, for the error message
+ * @returns the receipt, throws when the transaction was not mined
+ */
+export const waitForTransaction = async (tx: ITransaction, description: string): Promise<ITransactionReceipt> => {
+  const outcome = await trackTransaction(tx);
+  if (outcome.status !== "mined" || !outcome.receipt) {
+    throw new Error(`${description} ${outcome.status} (${outcome.hash}): ${outcome.reason ?? "no receipt"}`);
+  }
+  return outcome.receipt;
+};
@@ -0,0 +1,84 @@
+import { ITransaction } from "./contracts-helper";
+import { logMessage } from "./errors-helper";
+import { incrementCounter } from "./metrics-helper";
+import { recordTransaction } from "./report-helper";
+import { getRunState } from "./run-helper";
+
+import { BigNumber, Contract } from "ethers";
+
+/**
+ * A write that would have been sent had we not been running in dry-run mode
+ */
+export interface IPlannedAction {
+  serviceName: string;
+  contractName: string;
+  contractAddress: string;
+  method: string;
+  args: Array<unknown>;
+  rationale: string;
+}
+
+/**
+ * @returns the planned actions of the current run
+ */
+export const getPlannedActions = (): Array<IPlannedAction> => {
+  return getRunState()?.plannedActions ?? [];
+};
+
+/**
+ * make arguments readable in logs and JSON, BigNumbers would otherwise serialize as { type, hex }
+ */
+export const formatArg = (arg: unknown): unknown => {
+  if (BigNumber.isBigNumber(arg)) {
+    return arg.toString();
+  } else if (Array.isArray(arg)) {
+    return arg.map(formatArg);
+  } else if (arg !== null && typeof arg === "object") {
+    return Object.fromEntries(Object.entries(arg).map(([key, value]) => [key, formatArg(value)]));
+  }
+  return arg;
+};
+
+/**
+ * Every service write goes through here.  In dry-run mode the write is recorded as a planned action
+ * and nothing is signed or sent, in which case the return value is undefined.
+ *
+ * @param serviceName the service sending it, for logging and the run report
+ * @param contract
+ * @param contractName for logging, since ethers doesn't know the name of the contract
+ * @param method name of the contract method to invoke
+ * @param args arguments to the contract method
+ * @param rationale why the service wants to do this
+ */
+export const sendTransaction = async (
+  serviceName: string,
+  contract: Contract,
+  contractName: string,
+  method: string,
+  args: Array<unknown>,
+  rationale: string,
+): Promise<ITransaction | undefined> => {
+  if (getRunState()?.dryRun) {
+    const action: IPlannedAction = {
+      serviceName,
+      contractName,
+      contractAddress: contract.address,
+      method,
+      args: args.map(formatArg),
+      rationale,
+    };
+    getRunState()?.plannedActions.push(action);
+    logMessage("Dry Run", `planned ${contractName}.${method}(${JSON.stringify(action.args)}): ${rationale}`);
+    return undefined;
+  }
+  const tx: ITransaction = await contract[method](...args);
+  incrementCounter("kolektivo_actions", { service: serviceName });
+  recordTransaction(serviceName, {
+    contractName,
+    method,
+    hash: tx.hash,
+    transactionId: tx.transactionId,
+    rationale,
+  });
+  return tx;
+};
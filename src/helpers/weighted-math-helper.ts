@@ -0,0 +1,103 @@
+import { fromBigNumber, pow, RoundingMode, toBigNumber } from "./fixednumber-helper";
+
+import { BigNumber, FixedNumber } from "ethers";
+
+/**
+ * Balancer weighted-pool math, see https://docs.balancer.fi/reference/math/weighted-math.html
+ *
+ * Every amount, weight, price and fee has 18 decimals, as the Vault and pools report them.
+ * The weights are normalized, so the weights of the pool's tokens add up to one.
+ * The math works at 36 decimals, and as in the pools, rounds amounts out down and amounts in up to 18 decimals,
+ * so that neither favors the swapper.
+ */
+
+export interface IWeightedPoolToken {
+  balance: BigNumber;
+  weight: BigNumber;
+}
+
+const FORMAT = "fixed256x36";
+
+const ONE = FixedNumber.from(1, FORMAT);
+
+const toFixed = (value: BigNumber): FixedNumber => fromBigNumber(value, 18, FORMAT);
+
+const fromFixed = (value: FixedNumber, mode: RoundingMode = "nearest"): BigNumber => toBigNumber(value, 18, mode);
+
+/**
+ * @returns the price of one tokenOut in tokenIn, including the swap fee when given
+ */
+export const spotPrice = (
+  tokenIn: IWeightedPoolToken,
+  tokenOut: IWeightedPoolToken,
+  swapFee: BigNumber = BigNumber.from(0),
+): BigNumber => {
+  const price = toFixed(tokenIn.balance)
+    .divUnsafe(toFixed(tokenIn.weight))
+    .divUnsafe(toFixed(tokenOut.balance).divUnsafe(toFixed(tokenOut.weight)));
+  return fromFixed(price.divUnsafe(ONE.subUnsafe(toFixed(swapFee))));
+};
+
+/**
+ * @returns the amount of tokenOut received for amountIn of tokenIn
+ */
+export const outGivenIn = (
+  tokenIn: IWeightedPoolToken,
+  tokenOut: IWeightedPoolToken,
+  amountIn: BigNumber,
+  swapFee: BigNumber,
+): BigNumber => {
+  const balanceIn = toFixed(tokenIn.balance);
+  const amountInLessFee = toFixed(amountIn).mulUnsafe(ONE.subUnsafe(toFixed(swapFee)));
+  const base = balanceIn.divUnsafe(balanceIn.addUnsafe(amountInLessFee));
+  const exponent = toFixed(tokenIn.weight).divUnsafe(toFixed(tokenOut.weight));
+  return fromFixed(toFixed(tokenOut.balance).mulUnsafe(ONE.subUnsafe(pow(base, exponent))), "down");
+};
+
+/**
+ * @returns the amount of tokenIn it costs to receive amountOut of tokenOut
+ */
+export const inGivenOut = (
+  tokenIn: IWeightedPoolToken,
+  tokenOut: IWeightedPoolToken,
+  amountOut: BigNumber,
+  swapFee: BigNumber,
+): BigNumber => {
+  if (amountOut.gte(tokenOut.balance)) {
+    throw new Error("cannot take the entire balance of a token out of the pool");
+  }
+  const balanceOut = toFixed(tokenOut.balance);
+  const base = balanceOut.divUnsafe(balanceOut.subUnsafe(toFixed(amountOut)));
+  const exponent = toFixed(tokenOut.weight).divUnsafe(toFixed(tokenIn.weight));
+  return fromFixed(
+    toFixed(tokenIn.balance)
+      .mulUnsafe(pow(base, exponent).subUnsafe(ONE))
+      .divUnsafe(ONE.subUnsafe(toFixed(swapFee))),
+    "up",
+  );
+};
+
+/**
+ * See https://balancer-dao.gitbook.io/learn-about-balancer/fundamentals/white-paper/trading-formulas/in-given-price
+ *
+ * @param spotPriceAfter the price of one tokenOut in tokenIn, including the swap fee, to bring the pool to
+ * @returns the amount of tokenIn to swap in to raise the spot price to spotPriceAfter, zero when the spot price
+ * is already there or above
+ */
+export const inGivenPrice = (
+  tokenIn: IWeightedPoolToken,
+  tokenOut: IWeightedPoolToken,
+  spotPriceAfter: BigNumber,
+  swapFee: BigNumber,
+): BigNumber => {
+  const spotPriceBefore = spotPrice(tokenIn, tokenOut, swapFee);
+  if (spotPriceAfter.lte(spotPriceBefore)) {
+    return BigNumber.from(0);
+  }
+  const weightIn = toFixed(tokenIn.weight);
+  const weightOut = toFixed(tokenOut.weight);
+  const ratio = toFixed(spotPriceAfter).divUnsafe(toFixed(spotPriceBefore));
+  return fromFixed(
+    toFixed(tokenIn.balance).mulUnsafe(pow(ratio, weightOut.divUnsafe(weightOut.addUnsafe(weightIn))).subUnsafe(ONE)),
+  );
+};
@@ -0,0 +1,119 @@
+/**
+ * Query the run history kept when running locally, see README "Run History"
+ *
+ *    npm run history -- <command> [options]
+ */
+import { CliFlags, numberFlag, parseArgs, printRows, runCli, stringFlag } from "./helpers/cli-helper";
+import { createJsonlHistoryStore, getSeries, getTransactions, IHistoryFilter } from "./helpers/history-helper";
+import { RunStatus } from "./helpers/report-helper";
+
+const USAGE = `usage: npm run history -- <command> [options]
+
+commands:
+  runs                     the runs, with their status
+  keys                     the value keys recorded by the latest run
+  series <key>             a value over time, such as floor-ceiling.backingRatio or kolektivo_backing_ratio
+  transactions             the transactions sent
+
+options:
+  --days <n>               only the last n days
+  --since <date>           only runs that started at or after the date, such as 2023-05-01
+  --until <date>           only runs that started before the date
+  --network <network>
+  --status <status>        succeeded, failed or skipped
+  --service <id>           transactions: only of the service, such as mento
+  --contract <name>        transactions: only to the contract, such as MentoReserve
+  --method <name>          transactions: only of the method, such as transfer
+  --planned                transactions: include those planned in dry runs
+  --json                   output JSON
+  --file <path>            the history file, default HISTORY_FILE or history.jsonl`;
+
+const parseDate = (flag: string, value: string): Date => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`--${flag}: "${value}" is not a date`);
+  }
+  return date;
+};
+
+const getFilter = (flags: CliFlags): IHistoryFilter => {
+  const filter: IHistoryFilter = {};
+  const days = numberFlag(flags, "days");
+  if (days !== undefined) {
+    if (!(days > 0)) {
+      throw new Error(`--days: "${days}" is not a positive number`);
+    }
+    filter.since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  }
+  if (typeof flags.since === "string") {
+    filter.since = parseDate("since", flags.since);
+  }
+  if (typeof flags.until === "string") {
+    filter.until = parseDate("until", flags.until);
+  }
+  if (typeof flags.network === "string") {
+    filter.network = flags.network;
+  }
+  if (typeof flags.status === "string") {
+    filter.status = flags.status as RunStatus;
+  }
+  return filter;
+};
+
+const run = async (): Promise<void> => {
+  const {
+    positional: [command, key],
+    flags,
+  } = parseArgs(process.argv.slice(2), ["planned", "json"]);
+  const json = flags.json === true;
+  const store = createJsonlHistoryStore(stringFlag(flags, "file") ?? process.env.HISTORY_FILE ?? "history.jsonl");
+  const snapshots = await store.read(getFilter(flags));
+
+  switch (command) {
+    case "runs":
+      printRows(
+        snapshots.map(({ runId, startedAt, status, network, dryRun, durationMs }) => ({
+          runId,
+          startedAt,
+          status,
+          network,
+          dryRun,
+          durationMs,
+        })),
+        json,
+        (run) =>
+          `${run.startedAt}  ${run.runId}  ${run.status}${run.dryRun ? " (dry run)" : ""}  ${run.network ?? ""}  ${
+            run.durationMs
+          }ms`,
+      );
+      break;
+    case "keys":
+      printRows(Object.keys(snapshots[snapshots.length - 1]?.values ?? {}).sort(), json, (key) => key);
+      break;
+    case "series":
+      if (!key) {
+        throw new Error("series needs a key, see the keys command");
+      }
+      printRows(getSeries(snapshots, key), json, (point) => `${point.startedAt}  ${point.value}`);
+      break;
+    case "transactions":
+      printRows(
+        getTransactions(snapshots, {
+          service: stringFlag(flags, "service"),
+          contractName: stringFlag(flags, "contract"),
+          method: stringFlag(flags, "method"),
+          includePlanned: flags.planned === true,
+        }),
+        json,
+        (transaction) =>
+          `${transaction.startedAt}  ${transaction.service}  ${transaction.contractName}.${transaction.method}  ${
+            transaction.planned ? "planned" : `${transaction.hash ?? ""} ${transaction.outcome ?? ""}`
+          }  ${transaction.rationale}`,
+      );
+      break;
+    default:
+      throw new Error(command ? `unknown command: ${command}` : "no command given");
+  }
+};
+
+runCli(run, USAGE);
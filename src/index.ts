@@ -3,102 +3,217 @@
  *    https://docs.openzeppelin.com/defender/autotasks#environment
  */
 // eslint-disable-next-line @typescript-eslint/no-var-requires
-import { fetchAbis, IAutoRelayHandler } from "./helpers/abi-helper";
-import { clearFailedStatus, failedStatus, logMessage, logWarning } from "./helpers/errors-helper";
-import { initializeNotifications, INotificationClient } from "./helpers/notifications-helper";
+import { confirmNetwork, fetchAbis, IAutoRelayHandler } from "./helpers/abi-helper";
+import { IConfig, initializeConfig } from "./helpers/config-helper";
+import { ContractFactory, setContractFactory } from "./helpers/contracts-helper";
+import { hasRunFailed, logMessage, logWarning } from "./helpers/errors-helper";
+import { IHistoryStore, initializeHistory, recordSnapshot } from "./helpers/history-helper";
+import { acquireRunLock, releaseRunLock } from "./helpers/lock-helper";
+import { initializeMetrics, publishMetrics } from "./helpers/metrics-helper";
+import { getMultisigProposals } from "./helpers/multisig-helper";
+import { flushNotifications, initializeNotifications, INotificationClient } from "./helpers/notifications-helper";
+import { IPriceSource } from "./helpers/price-helper";
+import { finishRunReport, getServiceReport, IRunReport, RunStatus } from "./helpers/report-helper";
+import { IRunState, startRun } from "./helpers/run-helper";
+import { runServices } from "./helpers/services-helper";
+import { createSignerBackend, ISignerBackend } from "./helpers/signer-helper";
+import { IKeyValueStore, initializeStorage } from "./helpers/storage-helper";
 import { confirmTokenBalances } from "./helpers/tokens-helper";
-import { executeCusdService } from "./services/cusd-service";
-import { executeFloorAndCeilingService } from "./services/kcur-floor-and-ceiling-service";
-import { executeKCurService, getKCurPrice } from "./services/kcur-service";
-import { executekGkCURService } from "./services/kg-kcur-rate-service";
-import { executeMentoService } from "./services/mento-arbitrage-service";
+import { initializeTransactionTracking } from "./helpers/tracker-helper";
+import { getPlannedActions } from "./helpers/transactions-helper";
+import { services } from "./services/services-registry";
 import { environment } from "./globals";
 
-import { Relayer } from "defender-relay-client";
-import { DefenderRelayProvider, DefenderRelaySigner } from "defender-relay-client/lib/ethers";
-import { RelayerModel } from "defender-relay-client/lib/relayer";
-
 environment.runningLocally = require.main === module;
 
 const serviceName = "Handler";
 
+/**
+ * the contracts the services need to be deployed to the configured network
+ */
+const REQUIRED_CONTRACTS = [
+  "Reserve",
+  "CuracaoReserveToken",
+  "KolektivoGuilder",
+  "cUSD",
+  "Vault",
+  "kCur Pool",
+  "ProxyPool",
+  "SortedOracles",
+  "MentoReserve",
+];
+
 export interface IRunContext {
   notificationClient?: INotificationClient;
+  storage?: IKeyValueStore;
+  history?: IHistoryStore;
+  /**
+   * with contractFactory, such as from createSimulator in simulator-helper, to run without a node
+   */
+  signerBackend?: ISignerBackend;
+  contractFactory?: ContractFactory;
+  /**
+   * replace the market sources of the cUSD price, such as with the simulator's
+   */
+  cUsdPriceSources?: Array<IPriceSource>;
 }
 
-/********************************
- * Autotask entrypoint for the entire service
- *
- * The autotask logs all exceptions thrown here, including stack trace, and sends an email to the Defender account holder.
- *
- * @returns I believe can be used to trigger notifications
+/**
+ * Everything the handler does once it holds the run lock
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export async function handler(event: IAutoRelayHandler, context?: IRunContext): Promise<string> {
+const run = async (
+  event: IAutoRelayHandler,
+  config: IConfig,
+  runState: IRunState,
+  context?: IRunContext,
+): Promise<void> => {
+  const report = runState.report;
   /**
-   * TODO: figure out how to avoid re-entrancy
+   * In dry-run mode every service still reads on-chain state and computes its decisions,
+   * but writes are only recorded, see transactions-helper.
    */
-  clearFailedStatus();
-
-  initializeNotifications(context?.notificationClient);
-
-  fetchAbis(event);
+  runState.dryRun = config.dryRun;
+  if (runState.dryRun) {
+    logMessage(serviceName, "Running in dry-run mode, no transactions will be sent");
+  }
 
-  const relayer = new Relayer(event);
-  const relayerInfo: RelayerModel = await relayer.getRelayer();
-  logMessage(serviceName, `Relayer address is ${relayerInfo.address}`);
+  fetchAbis(config.network);
 
-  const provider = new DefenderRelayProvider(event);
-  const signer = new DefenderRelaySigner(event, provider, { speed: "fast" });
+  setContractFactory(context?.contractFactory);
+  const signerBackend = context?.signerBackend ?? createSignerBackend(event);
+  /**
+   * if the wrong network was configured, stop here before reading or sending anything
+   */
+  await confirmNetwork(signerBackend.provider, REQUIRED_CONTRACTS);
+  const signer = signerBackend.signer;
+  initializeTransactionTracking(signerBackend);
+  const relayerAddress = await signerBackend.getAddress();
+  logMessage(serviceName, `Relayer address is ${relayerAddress}`);
+  report.relayerAddress = relayerAddress;
 
   // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
   const coinGeckoApiKey = environment.runningLocally ? process.env.COINGECKO_API_KEY! : event.secrets.CoingeckoApiKey;
 
-  await confirmTokenBalances(relayerInfo.address, signer);
+  const balances = await confirmTokenBalances(relayerAddress, signer);
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  getServiceReport(serviceName)!.inputs.relayerBalances = balances;
 
   /**
-   * FYI we aren't awaiting transactions to be mined.  Why, aside from the fact that Celo is fast
-   * and we're asking in the signer for fast mining:
-   *
-   * From https://www.npmjs.com/package/defender-relay-client#user-content-ethersjs :
+   * FYI we only await transactions being mined when a service relies on the state change, and then
+   * not with tx.wait().  From https://www.npmjs.com/package/defender-relay-client#user-content-ethersjs :
    *
    * A wait on the transaction to be mined will only wait for the current transaction hash (see Querying).
    * If Defender Relayer replaces the transaction with a different one, this operation will time out.
-   * This is ok for fast transactions, since Defender only reprices after a few minutes.
-   * But if you expect the transaction to take a long time to be mined, then ethers' wait may not work.
-   * Future versions will also include an ethers provider aware of this.
+   *
+   * Instead, see tracker-helper, which follows the transaction by its Defender transactionId.
    */
 
-  let cUsdPrice = await executeCusdService(coinGeckoApiKey, signer);
+  /**
+   * services run as soon as the services they depend on have succeeded, see services-registry
+   */
+  const results = await runServices(services, config.disabledServices, {
+    signer,
+    relayerAddress,
+    coinGeckoApiKey,
+    cUsdPriceSources: context?.cUsdPriceSources,
+  });
 
-  if (cUsdPrice == undefined) {
-    cUsdPrice = 1; // good enough and doesn't fail the other service
-    logWarning(serviceName, "Due to an error, defaulting cusdPrice to 1");
+  for (const result of results) {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    Object.assign(getServiceReport(result.name)!, result);
   }
 
-  const kCurPrice = await getKCurPrice(cUsdPrice, signer);
-
-  if (kCurPrice === undefined) {
-    throw new Error("Cannot proceed, the remaining services depend on the kCur price, which could not be obtained");
+  const multisigProposals = getMultisigProposals();
+  if (multisigProposals.length) {
+    report.multisigProposals = multisigProposals;
+    logMessage(serviceName, `${multisigProposals.length} action(s) proposed to the KolektivoMultiSig`);
   }
 
-  await executeKCurService(kCurPrice, signer);
-
-  //await Promise.all([
-  await executekGkCURService(kCurPrice, signer);
-  await executeMentoService(kCurPrice, relayerInfo.address, signer);
-  await executeFloorAndCeilingService(kCurPrice, relayerInfo.address, signer);
-  //]);
-
-  if (failedStatus) {
-    clearFailedStatus();
-    // eslint-disable-next-line no-console
-    // console.error("One or more services failed");
-    throw new Error("One or more services failed");
-    // return "One or more services failed";
-  } else {
-    return "Succeeded";
+  if (runState.dryRun) {
+    report.plannedActions = getPlannedActions();
+    logMessage(serviceName, `Dry run complete, ${report.plannedActions.length} planned action(s)`);
   }
+};
+
+/********************************
+ * Autotask entrypoint for the entire service
+ *
+ * The autotask logs all exceptions thrown here, including stack trace, and sends an email to the Defender account holder.
+ * Exceptions are only thrown when the run cannot start, such as for a bad config or the wrong network.
+ *
+ * @returns the run report (IRunReport) as JSON, its status is "failed" when one or more services failed,
+ * "skipped" when another run was in flight
+ */
+export async function handler(event: IAutoRelayHandler, context?: IRunContext): Promise<string> {
+  return startRun(async (runState) => {
+    const report = runState.report;
+    report.runId = runState.runId;
+
+    /**
+     * fails fast on any bad setting, before anything is read or sent
+     */
+    const config = initializeConfig(event);
+    report.network = config.network;
+    report.dryRun = config.dryRun;
+
+    initializeStorage(event, context?.storage);
+    initializeHistory(event, config.historyFile, config.historyMaxSnapshots, context?.history);
+
+    /**
+     * a run that starts while another is in flight exits cleanly, so they can't both act on the same state
+     */
+    if (!(await acquireRunLock(runState.runId, config.runLockTtlSeconds))) {
+      logMessage(serviceName, "Another run is in flight, exiting");
+      finishRunReport("skipped");
+      return JSON.stringify(report, undefined, 2);
+    }
+
+    let status: RunStatus = "failed";
+    try {
+      await initializeMetrics();
+      await initializeNotifications({
+        routes: { info: config.notifyInfo, warning: config.notifyWarning, critical: config.notifyCritical },
+        defenderClient: context?.notificationClient,
+        defenderChannel: config.defenderNotificationChannel,
+        webhookUrl: environment.runningLocally ? process.env.WEBHOOK_URL : event.secrets.WebhookUrl,
+        filePath: config.notificationsFile,
+      });
+
+      await run(event, config, runState, context);
+      status = hasRunFailed() ? "failed" : "succeeded";
+    } finally {
+      /**
+       * none of these may keep the lock from being released, which would lock out the next runs until the TTL
+       */
+      finishRunReport(status);
+      try {
+        await flushNotifications();
+      } catch (ex) {
+        logWarning(serviceName, `failed sending the notifications: ${(ex as Error).message}`);
+      }
+      try {
+        /**
+         * counters are saved while still holding the lock, so concurrent runs can't lose each other's counts
+         */
+        report.metrics = await publishMetrics(report, {
+          filePath: environment.runningLocally ? config.metricsFile : undefined,
+          pushUrl: environment.runningLocally ? process.env.METRICS_PUSH_URL : event.secrets.MetricsPushUrl,
+        });
+      } catch (ex) {
+        logWarning(serviceName, `failed publishing the metrics: ${(ex as Error).message}`);
+      }
+      try {
+        await recordSnapshot(report);
+      } catch (ex) {
+        logWarning(serviceName, `failed recording the run in the history: ${(ex as Error).message}`);
+      }
+      await releaseRunLock(runState.runId);
+    }
+
+    logMessage(serviceName, `Run ${report.status} in ${report.durationMs}ms`);
+
+    return JSON.stringify(report, undefined, 2);
+  });
 }
 
 /*************************************
@@ -138,7 +253,11 @@ if (environment.runningLocally) {
   // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
 
   handler({ apiKey, apiSecret, secrets: {} }, { notificationClient: undefined })
-    .then(() => process.exit(0))
+    .then((result: string) => {
+      // eslint-disable-next-line no-console
+      console.log(result);
+      process.exit((JSON.parse(result) as IRunReport).status === "failed" ? 1 : 0);
+    })
     .catch((error: Error) => {
       // eslint-disable-next-line no-console
       console.error(error);
@@ -1,29 +1,90 @@
-import { getTokenGeckoPrice } from "../helpers/coingecko-helper";
+import { createCoinGeckoPriceSource } from "../helpers/coingecko-helper";
+import { getConfig } from "../helpers/config-helper";
 import { ITransaction } from "../helpers/contracts-helper";
-import { logMessage, serviceThrewException } from "../helpers/errors-helper";
+import { createDefiLlamaPriceSource } from "../helpers/defillama-helper";
+import { logMessage, logWarning, serviceThrewException } from "../helpers/errors-helper";
+import { setGauge } from "../helpers/metrics-helper";
+import { notify, resolveCondition } from "../helpers/notifications-helper";
+import { aggregatePrice, createStaticPriceSource, IPriceSource } from "../helpers/price-helper";
+import { recordInput } from "../helpers/report-helper";
 import { getOracleForToken, getReserveContract, updateOracle } from "../helpers/reserve-helper";
+import { waitForTransaction } from "../helpers/tracker-helper";
 
-import { DefenderRelaySigner } from "defender-relay-client/lib/ethers/signer";
+import { Signer } from "ethers";
 
 const serviceName = "cUSD Service";
 
+/**
+ * cUSD on Celo mainnet, which DefiLlama knows, also used to price cUSD on the test networks
+ */
+const CELO_CUSD_ADDRESS = "0x765DE816845861e75A25fCA122bb6898B8B1282a";
+
+const FALLBACK_CONDITION_KEY = "cUsdPriceFallback";
+
+/**
+ * the market sources of the cUSD price.
+ *
+ * Not the Mento SortedOracles median for cUSD: that is a rate of cUSD per CELO, not a $USD price, and turning it into
+ * one takes a CELO/USD price from these same market sources, so it would not be an independent source.
+ */
+export const getCUsdPriceSources = (coinGeckoApiKey: string): Array<IPriceSource> => {
+  return [
+    // confirm here: https://www.coingecko.com/en/coins/celo-dollar
+    createCoinGeckoPriceSource("celo-dollar", coinGeckoApiKey),
+    createDefiLlamaPriceSource(`celo:${CELO_CUSD_ADDRESS}`),
+  ];
+};
+
+/**
+ * Report the cUSD price to the cUSD Oracle when a quorum of the market sources agree on it.  Otherwise leave the
+ * cUSD Oracle alone and return the static price, so the services valuing kCUR in cUSD still run.
+ *
+ * @param sources the market sources of the cUSD price, see getCUsdPriceSources
+ * @param staticCusdPrice the peg, a reference to reject outliers that never counts toward the quorum, and the price
+ * used without a quorum
+ * @returns the cUSD price, or undefined when the cUSD Oracle could not be updated
+ */
 export const executeCusdService = async (
-  coinGeckoApiKey: string,
-  signer: DefenderRelaySigner,
+  sources: Array<IPriceSource>,
+  staticCusdPrice: number,
+  signer: Signer,
 ): Promise<number | undefined> => {
   logMessage(serviceName, "executing...");
 
-  let cusdPrice!: number;
+  const config = getConfig();
+
+  const useStaticPrice = (reason: string): number => {
+    logWarning(serviceName, `${reason}, not reporting to the cUSD Oracle, using the static price: ${staticCusdPrice}`);
+    recordInput(serviceName, "cUsdPriceFrom", "static");
+    recordInput(serviceName, "cUsdPrice", staticCusdPrice);
+    notify("cUsdPriceFallback", { reason, fallbackPrice: staticCusdPrice }, FALLBACK_CONDITION_KEY);
+    return staticCusdPrice;
+  };
 
+  let cusdPrice: number;
   try {
-    cusdPrice = await getTokenGeckoPrice("celo-dollar", coinGeckoApiKey);
+    const aggregatedPrice = await aggregatePrice(
+      [...sources, createStaticPriceSource(staticCusdPrice)],
+      { tolerance: config.cUsdPriceTolerance, quorum: config.cUsdPriceQuorum },
+      serviceName,
+    );
+
+    recordInput(serviceName, "cUsdPriceSources", aggregatedPrice.results);
+
+    if (aggregatedPrice.price === undefined) {
+      return useStaticPrice("Not enough cUSD price sources agree");
+    }
+
+    cusdPrice = aggregatedPrice.price;
+    recordInput(serviceName, "cUsdPriceFrom", "sources");
+    recordInput(serviceName, "cUsdPrice", cusdPrice);
+    setGauge("kolektivo_cusd_price_usd", cusdPrice);
+    resolveCondition(FALLBACK_CONDITION_KEY);
   } catch (ex) {
-    serviceThrewException(serviceName, ex);
-    return undefined;
+    return useStaticPrice(`Could not get the cUSD price: ${(ex as Error).message}`);
   }
 
   try {
-    // confirm here: https://www.coingecko.com/en/coins/celo-dollar
     const reserveContract = getReserveContract(signer);
 
     logMessage(serviceName, "Reserve address: ", reserveContract.address);
@@ -31,11 +92,22 @@ export const executeCusdService = async (
     const cUsdOracleContract = await getOracleForToken(reserveContract, "cUSD", signer);
 
     logMessage(serviceName, "cUSD Oracle address: ", cUsdOracleContract.address);
-    logMessage(serviceName, `Reporting ${cusdPrice} to cUSD Oracle`);
 
-    const tx: ITransaction = await updateOracle(cUsdOracleContract, cusdPrice);
-    await tx.wait(); // await because other services depend on this being up-to-date
-    logMessage(serviceName, `Updated cUSD Oracle, tx hash: ${tx.hash}`);
+    const tx: ITransaction | undefined = await updateOracle(
+      cUsdOracleContract,
+      "cUSD Oracle",
+      cusdPrice,
+      {
+        deviationThreshold: config.cUsdOracleDeviationThreshold,
+        heartbeatSeconds: config.cUsdOracleHeartbeatSeconds,
+        expiryMarginSeconds: config.oracleExpiryMarginSeconds,
+      },
+      serviceName,
+    );
+    if (tx) {
+      await waitForTransaction(tx, "cUSD Oracle report"); // await because other services depend on this being up-to-date
+      logMessage(serviceName, `Updated cUSD Oracle, tx hash: ${tx.hash}`);
+    }
     return cusdPrice;
   } catch (ex) {
     serviceThrewException(serviceName, ex);
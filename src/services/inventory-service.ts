@@ -0,0 +1,199 @@
+import { getConfig, IConfig } from "../helpers/config-helper";
+import { fromWei, getContract, toWei } from "../helpers/contracts-helper";
+import { logMessage, logWarning, serviceThrewException } from "../helpers/errors-helper";
+import { notify, resolveCondition } from "../helpers/notifications-helper";
+import {
+  computeInventoryPlan,
+  IInventoryLevel,
+  IInventorySwap,
+  INVENTORY_TOKENS,
+  InventoryToken,
+} from "../helpers/policy-helper";
+import { recordInput } from "../helpers/report-helper";
+import { createAllowance, IErc20Token } from "../helpers/tokens-helper";
+import { waitForTransaction } from "../helpers/tracker-helper";
+import { sendTransaction } from "../helpers/transactions-helper";
+
+import { BigNumber, Signer } from "ethers";
+import { BytesLike } from "ethers/lib/utils";
+
+const serviceName = "Inventory Service";
+
+const FUNDING_CONDITION_KEY = "fundingRequest";
+
+/**
+ * Vault SwapKind
+ */
+const GIVEN_OUT = 1;
+
+const CONTRACT_NAMES: Record<InventoryToken, string> = {
+  kCUR: "CuracaoReserveToken",
+  cUSD: "cUSD",
+  kG: "KolektivoGuilder",
+};
+
+const getLevels = (config: IConfig): Record<InventoryToken, Pick<IInventoryLevel, "minimum" | "target">> => {
+  return {
+    kCUR: { minimum: toWei(config.inventoryKCurMinimum, 18), target: toWei(config.inventoryKCurTarget, 18) },
+    cUSD: { minimum: toWei(config.inventoryCUsdMinimum, 18), target: toWei(config.inventoryCUsdTarget, 18) },
+    kG: { minimum: toWei(config.inventoryKGuilderMinimum, 18), target: toWei(config.inventoryKGuilderTarget, 18) },
+  };
+};
+
+/**
+ * Buy exactly swap.amountOut of the short token straight from the Vault, paying at most swap.maxAmountIn.
+ * Throws when the Vault's preview says the pool would take more, rather than send a swap that reverts.  Waits for the swap to be mined, so the services spending the inventory see the new balances.
+ */
+const sendSwap = async (swap: IInventorySwap, relayerAddress: string, signer: Signer): Promise<void> => {
+  const vaultContract = getContract("Vault", signer);
+  const poolId: BytesLike = await getContract(swap.pool, signer).getPoolId();
+  const tokenInContract = getContract(CONTRACT_NAMES[swap.tokenIn], signer) as unknown as IErc20Token;
+  const tokenOutContract = getContract(CONTRACT_NAMES[swap.tokenOut], signer);
+
+  const funds = {
+    sender: relayerAddress,
+    fromInternalBalance: false,
+    recipient: relayerAddress,
+    toInternalBalance: false,
+  };
+
+  /**
+   * asset deltas are from the point of view of the Vault, positive is what we pay in
+   */
+  const [previewAmountIn]: Array<BigNumber> = await vaultContract.callStatic.queryBatchSwap(
+    GIVEN_OUT,
+    [{ poolId, assetInIndex: 0, assetOutIndex: 1, amount: swap.amountOut, userData: "0x" }],
+    [tokenInContract.address, tokenOutContract.address],
+    funds,
+  );
+  if (previewAmountIn.gt(swap.maxAmountIn)) {
+    throw new Error(
+      `the ${swap.pool} would take ${fromWei(previewAmountIn, 18)} ${swap.tokenIn}, more than the ${fromWei(
+        swap.maxAmountIn,
+        18,
+      )} the prices and the slippage tolerance allow`,
+    );
+  }
+
+  await createAllowance(
+    signer,
+    tokenInContract,
+    swap.tokenIn,
+    swap.maxAmountIn,
+    relayerAddress,
+    vaultContract.address,
+    serviceName,
+  );
+
+  const deadline = Math.floor(Date.now() / 1000) + getConfig().swapDeadlineSeconds;
+  const tx = await sendTransaction(
+    serviceName,
+    vaultContract,
+    "Vault",
+    "swap",
+    [
+      {
+        poolId,
+        kind: GIVEN_OUT,
+        assetIn: tokenInContract.address,
+        assetOut: tokenOutContract.address,
+        amount: swap.amountOut,
+        userData: "0x",
+      },
+      funds,
+      swap.maxAmountIn,
+      deadline,
+    ],
+    `the Relayer's ${swap.tokenOut} is below its minimum, buy ${fromWei(swap.amountOut, 18)} ${
+      swap.tokenOut
+    } with at most ${fromWei(swap.maxAmountIn, 18)} of its surplus ${swap.tokenIn} on the ${swap.pool}`,
+  );
+
+  if (tx) {
+    await waitForTransaction(tx, `${swap.tokenIn} to ${swap.tokenOut} swap`);
+    logMessage(
+      serviceName,
+      `Bought ${fromWei(swap.amountOut, 18)} ${swap.tokenOut} with ${swap.tokenIn}, tx hash: ${tx.hash}`,
+    );
+  }
+};
+
+/**
+ * Keep the Relayer stocked with the kCUR, cUSD and kG the other services spend.  Each token that has fallen below
+ * its minimum is topped up to its target by swapping what the Relayer holds above the targets of the other tokens:
+ * cUSD and kCUR on the kCur Pool, kG and cUSD on the kGuilder Pool (see computeInventoryPlan).  Whatever can't be
+ * covered that way, including by swaps that fail, is sent as a funding request naming the exact amounts.
+ *
+ * @returns false when the service failed
+ */
+export const executeInventoryService = async (
+  cUsdPrice: number,
+  kCurPrice: number,
+  kGuilderUsdPrice: number,
+  relayerAddress: string,
+  signer: Signer,
+): Promise<boolean> => {
+  logMessage(serviceName, "executing...");
+
+  try {
+    const prices: Record<InventoryToken, number> = { kCUR: kCurPrice, cUSD: cUsdPrice, kG: kGuilderUsdPrice };
+    const configuredLevels = getLevels(getConfig());
+    const levels = {} as Record<InventoryToken, IInventoryLevel>;
+
+    for (const token of INVENTORY_TOKENS) {
+      const balance: BigNumber = await getContract(CONTRACT_NAMES[token], signer).balanceOf(relayerAddress);
+      levels[token] = { ...configuredLevels[token], balance, price: prices[token] };
+      recordInput(serviceName, `${token}Balance`, fromWei(balance, 18));
+    }
+
+    const plan = computeInventoryPlan(levels, getConfig());
+    recordInput(
+      serviceName,
+      "swaps",
+      plan.swaps.map((swap) => ({
+        ...swap,
+        amountOut: fromWei(swap.amountOut, 18),
+        maxAmountIn: fromWei(swap.maxAmountIn, 18),
+      })),
+    );
+
+    const shortfalls = { ...plan.shortfalls };
+    for (const swap of plan.swaps) {
+      try {
+        await sendSwap(swap, relayerAddress, signer);
+      } catch (ex) {
+        logWarning(
+          serviceName,
+          `Failed buying ${fromWei(swap.amountOut, 18)} ${swap.tokenOut} with ${swap.tokenIn}: ${
+            (ex as Error).message
+          }`,
+        );
+        shortfalls[swap.tokenOut] = (shortfalls[swap.tokenOut] ?? BigNumber.from(0)).add(swap.amountOut);
+      }
+    }
+
+    const amounts = INVENTORY_TOKENS.filter((token) => shortfalls[token]).map((token) => ({
+      tokenName: token,
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      amount: fromWei(shortfalls[token]!, 18),
+    }));
+    recordInput(serviceName, "fundingRequest", amounts);
+
+    if (amounts.length) {
+      logWarning(
+        serviceName,
+        `Requesting funding: ${amounts.map(({ tokenName, amount }) => `${amount} ${tokenName}`).join(", ")}`,
+      );
+      notify("fundingRequest", { relayerAddress, amounts }, FUNDING_CONDITION_KEY);
+    } else {
+      if (!plan.swaps.length) {
+        logMessage(serviceName, "The Relayer's balances are all above their minimums");
+      }
+      resolveCondition(FUNDING_CONDITION_KEY);
+    }
+    return true;
+  } catch (ex) {
+    serviceThrewException(serviceName, ex);
+    return false;
+  }
+};
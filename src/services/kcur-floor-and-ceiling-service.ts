@@ -1,10 +1,26 @@
+import { getContractAddress } from "../helpers/abi-helper";
+import { getConfig } from "../helpers/config-helper";
 import { fromWei, fromWeiToNumber, getContract, ITransaction, toWei } from "../helpers/contracts-helper";
 import { logMessage, serviceThrewException } from "../helpers/errors-helper";
-import { sqrt, toBigNumber } from "../helpers/fixednumber-helper";
+import { abs, gt, toBigNumber } from "../helpers/fixednumber-helper";
+import { setGauge } from "../helpers/metrics-helper";
+import { clearMultisigProposal, proposeToMultisig } from "../helpers/multisig-helper";
+import {
+  BPS,
+  checkReserveLimits,
+  computeCeilingDelta,
+  computeFloorDelta,
+  getCeiling,
+  getFloor,
+  IKCurPool,
+} from "../helpers/policy-helper";
+import { recordInput } from "../helpers/report-helper";
 import { createAllowance, IErc20Token } from "../helpers/tokens-helper";
+import { waitForTransaction } from "../helpers/tracker-helper";
+import { sendTransaction } from "../helpers/transactions-helper";
+import { inGivenOut } from "../helpers/weighted-math-helper";
 
-import { DefenderRelaySigner } from "defender-relay-client/lib/ethers/signer";
-import { BigNumber, FixedNumber } from "ethers";
+import { BigNumber, FixedNumber, Signer } from "ethers";
 import { BytesLike } from "ethers/lib/utils";
 
 const serviceName = "FloorCeiling Service";
@@ -25,44 +41,22 @@ interface IBatchSwapStep {
 }
 
 /**
- * execute a buy or sell between cUSD and kCUR
+ * docs: https://github.com/Kolektivo/kolektivo-monetary-contracts/blob/feat/mihir/src/dex/IVault.sol#L910
  */
-const sendBuyOrSell = async (
-  signer: DefenderRelaySigner,
-  relayerAddress: string,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  proxyPoolContract: any,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  kCurContract: any,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  cUsdContract: any,
-  /**
-   * amount of kCUR to buy or sell
-   */
-  kCurAmount: BigNumber,
-  kCurPrice: number,
-  /**
-   * if true then we're buying kCUR with cUSD
-   * if false then we're selling kCUR for cUSD
-   */
-  isBuying: boolean,
-): Promise<ITransaction> => {
-  /**
-   * docs: https://github.com/Kolektivo/kolektivo-monetary-contracts/blob/feat/mihir/src/dex/IVault.sol#L910
-   */
-  const funds: IFundManagement = {
-    sender: proxyPoolContract.address,
+const getFunds = (proxyPoolAddress: string, relayerAddress: string): IFundManagement => {
+  return {
+    sender: proxyPoolAddress,
     fromInternalBalance: false, // always false
     recipient: relayerAddress,
     toInternalBalance: false, // always false
   };
+};
 
-  const kCurPool = getContract("kCur Pool", signer);
-  const poolId: BytesLike = await kCurPool.getPoolId();
-  /**
-   * docs: https://github.com/Kolektivo/kolektivo-monetary-contracts/blob/feat/mihir/src/dex/IVault.sol#L881
-   */
-  const batchSwapStep: IBatchSwapStep = {
+/**
+ * docs: https://github.com/Kolektivo/kolektivo-monetary-contracts/blob/feat/mihir/src/dex/IVault.sol#L881
+ */
+const getBatchSwapStep = (poolId: BytesLike, kCurAmount: BigNumber): IBatchSwapStep => {
+  return {
     /**
      * kCUR pool id
      */
@@ -84,48 +78,200 @@ const sendBuyOrSell = async (
      */
     userData: "0x",
   };
+};
+
+interface ISwapCall {
+  method: string;
+  args: Array<unknown>;
+  rationale: string;
+}
+
+/**
+ * the ProxyPool method and arguments to buy or sell between cUSD and kCUR
+ */
+const getBuyOrSellCall = (
+  poolId: BytesLike,
+  proxyPoolAddress: string,
   /**
-   * limit says how many tokens can Vault use on behalf of user
+   * who pays and receives, the Relayer or the KolektivoMultiSig
    */
-  const limits: Array<BigNumber> = [toWei(10000, 18), toWei(10000, 18)];
+  recipient: string,
+  kCurAddress: string,
+  cUsdAddress: string,
+  /**
+   * amount of kCUR to buy or sell
+   */
+  kCurAmount: BigNumber,
+  /**
+   * when buying, the most cUSD we will pay, when selling the least cUSD we will accept
+   */
+  cUsdLimit: BigNumber,
+  kCurPrice: number,
+  /**
+   * if true then we're buying kCUR with cUSD
+   * if false then we're selling kCUR for cUSD
+   */
+  isBuying: boolean,
+  /**
+   * how long from now the swap may be executed
+   */
+  deadlineSeconds: number,
+): ISwapCall => {
+  const funds = getFunds(proxyPoolAddress, recipient);
+  const batchSwapStep = getBatchSwapStep(poolId, kCurAmount);
   /**
    * deadline is by what time the swap should be executed
    */
   const currentTimestamp = Math.floor(Date.now() / 1000);
-  const deadline: number = currentTimestamp + 60 * 60; // for us we can set it to one hour | used previously in Prime Launch
+  const deadline: number = currentTimestamp + deadlineSeconds;
   /**
    * kCUR is always the "exact" amount
    */
   if (isBuying) {
-    // const maximumAmountIn = await cUsdContract.balanceOf(relayerAddress);
-
-    logMessage(serviceName, `buying kCUR (${fromWei(batchSwapStep.amount, 18)}) with cUSD`);
+    /**
+     * limit says how many tokens can Vault use on behalf of user.
+     * Positive limits are the most the Vault may take in, negative the least it must send out.
+     */
+    const limits: Array<BigNumber> = [cUsdLimit, kCurAmount.mul(-1)];
     // buying kCUR (out) with cUSD (in)
-    return proxyPoolContract.batchSwapExactOut(
-      [batchSwapStep],
-      [cUsdContract.address, kCurContract.address],
-      // maxTotalAmountIn (# of cUSD)
-      await cUsdContract.balanceOf(relayerAddress),
-      funds,
-      limits,
-      deadline,
-    );
+    return {
+      method: "batchSwapExactOut",
+      args: [
+        [batchSwapStep],
+        [cUsdAddress, kCurAddress],
+        // maxTotalAmountIn (# of cUSD)
+        cUsdLimit,
+        funds,
+        limits,
+        deadline,
+      ],
+      rationale: `kCUR price (${kCurPrice}) is below the floor, buy ${fromWei(kCurAmount, 18)} kCUR with cUSD`,
+    };
   } else {
-    logMessage(serviceName, `selling kCUR (${fromWei(batchSwapStep.amount, 18)}) for cUSD`);
+    /**
+     * so the Vault also reverts if we would receive less than cUsdLimit
+     */
+    const limits: Array<BigNumber> = [kCurAmount, cUsdLimit.mul(-1)];
     // selling kCUR (in) to get cUSD (out)
-    return proxyPoolContract.batchSwapExactIn(
-      [batchSwapStep],
-      [kCurContract.address, cUsdContract.address],
-      batchSwapStep.amount, // yes, is the same as batchSwapStep.amount
-      // minTotalAmountOut (# of cUSD)
-      computeValueOfDelta(kCurAmount, kCurPrice),
-      funds,
-      limits,
-      deadline,
-    );
+    return {
+      method: "batchSwapExactIn",
+      args: [
+        [batchSwapStep],
+        [kCurAddress, cUsdAddress],
+        batchSwapStep.amount, // yes, is the same as batchSwapStep.amount
+        // minTotalAmountOut (# of cUSD)
+        cUsdLimit,
+        funds,
+        limits,
+        deadline,
+      ],
+      rationale: `kCUR price (${kCurPrice}) is above the ceiling, sell ${fromWei(kCurAmount, 18)} kCUR for cUSD`,
+    };
   }
 };
 
+/**
+ * execute a buy or sell between cUSD and kCUR
+ */
+const sendBuyOrSell = async (
+  signer: Signer,
+  relayerAddress: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  proxyPoolContract: any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  kCurContract: any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cUsdContract: any,
+  /**
+   * amount of kCUR to buy or sell
+   */
+  kCurAmount: BigNumber,
+  /**
+   * when buying, the most cUSD we will pay, when selling the least cUSD we will accept
+   */
+  cUsdLimit: BigNumber,
+  kCurPrice: number,
+  /**
+   * if true then we're buying kCUR with cUSD
+   * if false then we're selling kCUR for cUSD
+   */
+  isBuying: boolean,
+): Promise<ITransaction | undefined> => {
+  const kCurPool = getContract("kCur Pool", signer);
+  const poolId: BytesLike = await kCurPool.getPoolId();
+
+  if (isBuying) {
+    logMessage(serviceName, `buying kCUR (${fromWei(kCurAmount, 18)}) with at most ${fromWei(cUsdLimit, 18)} cUSD`);
+  } else {
+    logMessage(serviceName, `selling kCUR (${fromWei(kCurAmount, 18)}) for at least ${fromWei(cUsdLimit, 18)} cUSD`);
+  }
+
+  const { method, args, rationale } = getBuyOrSellCall(
+    poolId,
+    proxyPoolContract.address,
+    relayerAddress,
+    kCurContract.address,
+    cUsdContract.address,
+    kCurAmount,
+    cUsdLimit,
+    kCurPrice,
+    isBuying,
+    getConfig().swapDeadlineSeconds,
+  );
+  return sendTransaction(serviceName, proxyPoolContract, "ProxyPool", method, args, rationale);
+};
+
+/**
+ * Propose the buy or sell, with the allowances it needs, to the KolektivoMultiSig, which pays and receives
+ * in place of the Relayer
+ */
+const proposeBuyOrSell = async (
+  isBuying: boolean,
+  kCurAmount: BigNumber,
+  cUsdLimit: BigNumber,
+  kCurPrice: number,
+  kCurContract: IErc20Token,
+  cUsdContract: IErc20Token,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  proxyPoolContract: any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  vault: any,
+  signer: Signer,
+  /**
+   * why the Relayer may not do it on its own
+   */
+  limitReason: string,
+): Promise<void> => {
+  const poolId: BytesLike = await getContract("kCur Pool", signer).getPoolId();
+  const { method, args, rationale } = getBuyOrSellCall(
+    poolId,
+    proxyPoolContract.address,
+    getContractAddress("KolektivoMultiSig"),
+    kCurContract.address,
+    cUsdContract.address,
+    kCurAmount,
+    cUsdLimit,
+    kCurPrice,
+    isBuying,
+    /**
+     * leave the signers time to review it
+     */
+    getConfig().multisigSwapDeadlineSeconds,
+  );
+  const payTokenName = isBuying ? "cUSD" : "CuracaoReserveToken";
+  const maxPayAmount = isBuying ? cUsdLimit : kCurAmount;
+
+  proposeToMultisig(
+    serviceName,
+    [
+      { contractName: payTokenName, method: "approve", args: [proxyPoolContract.address, maxPayAmount] },
+      { contractName: payTokenName, method: "approve", args: [vault.address, maxPayAmount] },
+      { contractName: "ProxyPool", method, args },
+    ],
+    `${rationale}, ${limitReason}`,
+  );
+};
+
 const doit = async (
   /**
    * if true then we're buying kCUR with cUSD
@@ -136,33 +282,30 @@ const doit = async (
    * amount of kCUR to receive when buying or to pay when selling
    */
   kCurAmount: BigNumber,
+  /**
+   * when buying, the most cUSD we will pay for the kCUR, when selling the least cUSD we will accept for it
+   */
+  cUsdLimit: BigNumber,
   kCurPrice: number,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
   kCurContract: IErc20Token,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
   cUsdContract: IErc20Token,
   relayerAddress: string,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   proxyPoolContract: any,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   vault: any,
-  signer: DefenderRelaySigner,
-): Promise<ITransaction> => {
+  signer: Signer,
+): Promise<ITransaction | undefined> => {
   /**
-   * tell token to allow the proxy contract to spend token on behalf of the Relayer
-   * Since we can't know the amount of cUSD in advance (kCUr is always the fixed amount in the exchange),
-   * we will set the allowance the full balance of cUSD in relayer (maybe is better than unlimited, wishful thinking).
-   *
-   * cUsdAmount isn't used if !isBuying
+   * tell token to allow the proxy contract to spend token on behalf of the Relayer.
+   * When buying, kCUR is the fixed amount in the exchange, so we allow the most cUSD we are willing to pay.
    */
-  const cUsdAmount = isBuying ? await cUsdContract.balanceOf(relayerAddress) : null;
   await Promise.all([
     createAllowance(
       signer,
       isBuying ? cUsdContract : kCurContract,
       isBuying ? "cUSD" : "kCUR",
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      isBuying ? cUsdAmount! : kCurAmount,
+      isBuying ? cUsdLimit : kCurAmount,
       relayerAddress,
       proxyPoolContract.address,
       serviceName,
@@ -175,8 +318,7 @@ const doit = async (
     createAllowance(signer,
       isBuying ? cUsdContract : kCurContract,
       isBuying ? "cUSD" : "kCUR",
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      isBuying ? cUsdAmount! : kCurAmount,
+      isBuying ? cUsdLimit : kCurAmount,
       relayerAddress,
       vault.address,
       serviceName,
@@ -190,116 +332,105 @@ const doit = async (
     kCurContract,
     cUsdContract,
     kCurAmount,
+    cUsdLimit,
     kCurPrice,
     isBuying,
   );
 };
 
-const BPS = 10000;
-
 /**
- * backingRatio is (reserveValuation * BPS) / supplyValuation
- * @param backingRatio - not / BPS
- * @param ceilingMultiplier - not / BPS
- * @returns
- * [0]: a limit is breached
- * [1]: floor is breached (else if [0] then ceiling)
+ * the kCur Pool's balances, weights and swap fee
  */
-const checkReserveLimits = (
-  backingRatio: number,
-  ceilingMultiplier: number,
+const getPoolState = async (
+  cUsdAddress: string,
+  poolId: BytesLike,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-): Array<boolean> => {
-  // checks following
-  // current floor price <= current kCur price
-  // below condition is a derived condition which in the end checks same logic
-  if (backingRatio > BPS) {
-    return [true, true];
-  }
-
-  // Ceiling
-  // check following
-  // current kCur price > current floor price * ceiling multiplier
-  // below condition is a derived condition which in the end checks the same logic
-  // ceilingMultiplier -> if 3.5 = 35000
-  if (backingRatio * ceilingMultiplier < BPS * BPS) {
-    return [true, false];
-  }
+  vaultContract: any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  kCurPoolContract: any,
+): Promise<IKCurPool> => {
+  const { tokens, balances } = await vaultContract.getPoolTokens(poolId);
+  // in the same order as the tokens
+  const weights: Array<BigNumber> = await kCurPoolContract.getNormalizedWeights();
 
-  return [false, false];
-};
+  const cUsdIndex = tokens.indexOf(cUsdAddress);
+  const kCurIndex = cUsdIndex === 0 ? 1 : 0;
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const getFloor = (reserveBacking: number, kCurPrice: number): number => {
-  return (reserveBacking / BPS) * kCurPrice;
+  return {
+    kCur: { balance: balances[kCurIndex], weight: weights[kCurIndex] },
+    cUsd: { balance: balances[cUsdIndex], weight: weights[cUsdIndex] },
+    swapFee: await kCurPoolContract.getSwapFeePercentage(),
+  };
 };
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const getCeiling = (ceilingMultiplier: number, floor: number): number => {
-  return floor * (ceilingMultiplier / BPS);
-};
+/**
+ * Vault SwapKind
+ */
+const GIVEN_OUT = 1;
 
 /**
- * compute the number of kCUR needed to buy or sell.
- * The idea here is to alter the total supply of kCUR enough to cause
- * the floor or ceiling to equal the current price of xCUR
+ * Preview buying kCurAmount of kCUR with the Vault's queryBatchSwap, and confirm the preview agrees with
+ * what the price model (in-given-out on the pool balances) expects.
+ *
+ * @returns the most cUSD we should be willing to pay, the preview plus the slippage tolerance, or undefined when
+ * kCurAmount is too small for the price model to charge anything, so there is nothing worth buying
  */
-const computeDelta = async (
-  floor: number,
-  cUsdAddress: string,
+const previewFloorBuy = async (
+  kCurAmount: BigNumber,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  kCurContract: any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cUsdContract: any,
   poolId: BytesLike,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  kCurPoolContract: any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
   vaultContract: any,
-): Promise<BigNumber> => {
-  const { tokens, balances } = await vaultContract.getPoolTokens(poolId);
-
-  const cUsdIndex = tokens.indexOf(cUsdAddress);
-  const kCurIndex = cUsdIndex === 0 ? 1 : 0;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  proxyPoolContract: any,
+  relayerAddress: string,
+): Promise<BigNumber | undefined> => {
+  const pool = await getPoolState(cUsdContract.address, poolId, vaultContract, kCurPoolContract);
+  const one = FixedNumber.fromString("1");
+  const expectedAmountIn = FixedNumber.fromValue(inGivenOut(pool.cUsd, pool.kCur, kCurAmount, pool.swapFee));
+  if (expectedAmountIn.isZero()) {
+    return undefined;
+  }
 
-  const cUsdBalance = balances[cUsdIndex];
-  const kCurBalance = balances[kCurIndex];
+  /**
+   * asset deltas are from the point of view of the Vault, positive is what we pay in
+   */
+  const assetDeltas: Array<BigNumber> = await vaultContract.callStatic.queryBatchSwap(
+    GIVEN_OUT,
+    [getBatchSwapStep(poolId, kCurAmount)],
+    [cUsdContract.address, kCurContract.address],
+    getFunds(proxyPoolContract.address, relayerAddress),
+  );
+  const previewAmountIn = FixedNumber.fromValue(assetDeltas[0]);
+
+  logMessage(
+    serviceName,
+    `buying ${fromWei(kCurAmount, 18)} kCUR: Vault preview costs ${fromWei(
+      toBigNumber(previewAmountIn),
+      18,
+    )} cUSD, price model expects ${fromWei(toBigNumber(expectedAmountIn), 18)} cUSD`,
+  );
 
-  const one = FixedNumber.fromString("1");
-  // spot price before swap
-  const sp1 = FixedNumber.fromValue(cUsdBalance)
-    .divUnsafe(FixedNumber.fromValue(kCurBalance))
-    .mulUnsafe(one.divUnsafe(one.subUnsafe(FixedNumber.fromString("0.001"))));
-  // console.log(`sp1: ${sp1.toString()}`);
-  // target spot price
-  const sp2 = FixedNumber.fromString(floor.toString());
-  // kCur balance of kCur<>cUSD pool
-  // console.log(`sp2: ${sp2.toString()}`);
-  const bk1 = FixedNumber.fromValue(kCurBalance);
-  // cUSD balance of kCur<>cUSD pool
-  // console.log(`bk1: ${bk1.toString()}`);
-  const bc1 = FixedNumber.fromValue(cUsdBalance);
-  // spot price before swap divided by spot price after swap
-  // required by the formula
-  /// console.log(`bc1: ${bc1.toString()}`);
-  const sp2BySp1 = sp2.divUnsafe(sp1);
-  // console.log(`sp2BySp1: ${sp2BySp1.toString()}`);
-  // console.log(`sqrt(sp2BySp1): ${sqrt(sp2BySp1).toString()}`);
-
-  // calculated based on formula provided here https://balancer-dao.gitbook.io/learn-about-balancer/fundamentals/white-paper/trading-formulas/in-given-price
-  const amountIn = bk1.mulUnsafe(sqrt(sp2BySp1).subUnsafe(one));
-  // console.log(`amountIn: ${amountIn.toString()}`);
-
-  // calculated based on formula provided here https://docs.balancer.fi/reference/math/weighted-math.html#outgivenin
-  const amountOut = bk1.mulUnsafe(one.subUnsafe(bc1.divUnsafe(bc1.addUnsafe(amountIn))));
-  // console.log(`amountOut: ${amountOut.toString()})`);
-
-  // swapping on 15% of required amount to ensure the price doesn't shoot too high
-  const amountOutAdjusted = amountOut.divUnsafe(FixedNumber.fromString("1.5"));
-
-  return toBigNumber(amountOutAdjusted);
-  //console.log(`cUsdBalance: ${fromWei(cUsdBalance, 18)}`);
-  //console.log(`kCurBalance: ${fromWei(kCurBalance, 18)}`);
-  //console.log(`delta: ${fromWei(result, 18)}`);
-};
+  const { maxSwapPreviewDeviation, swapSlippage } = getConfig();
+  const deviation = abs(previewAmountIn.subUnsafe(expectedAmountIn)).divUnsafe(expectedAmountIn);
+  if (gt(deviation, FixedNumber.fromString(maxSwapPreviewDeviation.toString()))) {
+    throw new Error(
+      `Aborting the floor defense: the Vault preview of the cost of ${fromWei(kCurAmount, 18)} kCUR (${fromWei(
+        toBigNumber(previewAmountIn),
+        18,
+      )} cUSD) differs from the price model estimate (${fromWei(
+        toBigNumber(expectedAmountIn),
+        18,
+      )} cUSD) by more than ${maxSwapPreviewDeviation * 100}%`,
+    );
+  }
 
-const computeValueOfDelta = (deltaBG: BigNumber, kCurPrice: number): BigNumber => {
-  const delta = FixedNumber.fromValue(deltaBG);
-  return toBigNumber(FixedNumber.fromString(kCurPrice.toString()).mulUnsafe(delta));
+  return toBigNumber(previewAmountIn.mulUnsafe(one.addUnsafe(FixedNumber.fromString(swapSlippage.toString()))));
 };
 
 const getkCurTotalSupply = (totalSupplyValue: BigNumber, kCurPrice: number): BigNumber => {
@@ -307,16 +438,19 @@ const getkCurTotalSupply = (totalSupplyValue: BigNumber, kCurPrice: number): Big
 };
 
 /**
+ * Swaps larger than the multisig limits are proposed to the KolektivoMultiSig rather than sent.
+ *
  * @param kCurPrice this relies on the Reserve.reserveStatus being up-to-date with
  *                  the price having been reported to the Reserve kCur Oracle by the kcur-service.
  * @param relayerAddress
  * @param signer
+ * @returns false when the service failed
  */
 export const executeFloorAndCeilingService = async (
   kCurPrice: number,
   relayerAddress: string,
-  signer: DefenderRelaySigner,
-): Promise<void> => {
+  signer: Signer,
+): Promise<boolean> => {
   logMessage(serviceName, "executing...");
 
   try {
@@ -333,6 +467,10 @@ export const executeFloorAndCeilingService = async (
     logMessage(serviceName, `backingRatio: ${backingRatio / BPS}`);
 
     const breachState = checkReserveLimits(backingRatio, ceilingMultiplier);
+    /**
+     * the swap is too large for the Relayer and was proposed to the KolektivoMultiSig
+     */
+    let proposed = false;
 
     // const reserveToken = await proxyPoolContract.reserveToken();
     // const pairToken = await proxyPoolContract.pairToken();
@@ -342,6 +480,16 @@ export const executeFloorAndCeilingService = async (
     const ceiling = getCeiling(ceilingMultiplier, floor);
     logMessage(serviceName, `ceiling: ${ceiling}`);
 
+    recordInput(serviceName, "kCurPrice", kCurPrice);
+    recordInput(serviceName, "backingRatio", backingRatio / BPS);
+    recordInput(serviceName, "ceilingMultiplier", ceilingMultiplier / BPS);
+    recordInput(serviceName, "floor", floor);
+    recordInput(serviceName, "ceiling", ceiling);
+    setGauge("kolektivo_backing_ratio", backingRatio / BPS);
+    setGauge("kolektivo_ceiling_multiplier", ceilingMultiplier / BPS);
+    setGauge("kolektivo_kcur_floor_usd", floor);
+    setGauge("kolektivo_kcur_ceiling_usd", ceiling);
+
     if (breachState[0]) {
       // then there is a breach
       const totalSupply = getkCurTotalSupply(reserveStatus[1], kCurPrice);
@@ -361,52 +509,122 @@ export const executeFloorAndCeilingService = async (
          * delta is how many kCUR we should be buying to bring the reserve value on par with
          * the value of the total supply of kCUR.
          */
-        const delta = await computeDelta(floor, cUsdContract.address, poolId, vaultContract);
+        const delta = computeFloorDelta(
+          floor,
+          await getPoolState(cUsdContract.address, poolId, vaultContract, kCurPool),
+          getConfig(),
+        );
 
-        const tx = await doit(
-          true,
+        const maxCUsdAmountIn = await previewFloorBuy(
           delta,
-          kCurPrice,
           kCurContract,
           cUsdContract,
-          relayerAddress,
-          proxyPoolContract,
+          poolId,
+          kCurPool,
           vaultContract,
-          signer,
+          proxyPoolContract,
+          relayerAddress,
         );
 
-        logMessage(serviceName, `Sold ${fromWei(delta, 18)} kCUR for cUSD, tx hash: ${tx.hash}`);
+        const { multisigFloorBuyLimit } = getConfig();
+        if (!maxCUsdAmountIn) {
+          logMessage(serviceName, `After the swap fee the kCur Pool price is within the floor, nothing to buy`);
+        } else if (maxCUsdAmountIn.gt(toWei(multisigFloorBuyLimit, 18))) {
+          await proposeBuyOrSell(
+            true,
+            delta,
+            maxCUsdAmountIn,
+            kCurPrice,
+            kCurContract,
+            cUsdContract,
+            proxyPoolContract,
+            vaultContract,
+            signer,
+            `more than the ${multisigFloorBuyLimit} cUSD the Relayer may spend on its own`,
+          );
+          proposed = true;
+        } else {
+          const tx = await doit(
+            true,
+            delta,
+            maxCUsdAmountIn,
+            kCurPrice,
+            kCurContract,
+            cUsdContract,
+            relayerAddress,
+            proxyPoolContract,
+            vaultContract,
+            signer,
+          );
+
+          if (tx) {
+            // await so the services sending after this one see the Relayer's new balances
+            await waitForTransaction(tx, "floor defense swap");
+            logMessage(serviceName, `Bought ${fromWei(delta, 18)} kCUR with cUSD, tx hash: ${tx.hash}`);
+          }
+        }
       } else {
         /**
          * Is above the ceiling
          */
         logMessage(serviceName, `The ceiling has been breached`);
         /**
-         * delta is how many kCUR we should be minting (buying) to bring the treasury value on par with
-         * the value of the total supply of kCUR.
+         * delta is how many kCUR we should be selling to bring the price of kCUR down to the ceiling
          */
-        /**
-         * don't invoke this for now, as the logic is not fully worked out
-        const delta = computeDelta(reserveStatus[0], kCurPrice, totalSupply, false);
-
-        const tx = await doit(
-          false,
-          delta,
-          kCurPrice,
-          kCurContract,
-          cUsdContract,
-          relayerAddress,
-          proxyPoolContract,
-          signer,
+        const { kCurAmount: delta, minCUsdAmountOut } = computeCeilingDelta(
+          ceiling,
+          await getPoolState(cUsdContract.address, poolId, vaultContract, kCurPool),
+          getConfig(),
         );
 
-        logMessage(serviceName, `Bought ${fromWei(delta, 18)} kCUR with cUSD, tx hash: ${tx.hash}`);
-        */
+        if (delta.isZero()) {
+          logMessage(serviceName, `After the swap fee the kCur Pool price is within the ceiling, nothing to sell`);
+        } else if (delta.gt(toWei(getConfig().multisigCeilingSellLimit, 18))) {
+          await proposeBuyOrSell(
+            false,
+            delta,
+            minCUsdAmountOut,
+            kCurPrice,
+            kCurContract,
+            cUsdContract,
+            proxyPoolContract,
+            vaultContract,
+            signer,
+            `more than the ${getConfig().multisigCeilingSellLimit} kCUR the Relayer may sell on its own`,
+          );
+          proposed = true;
+        } else {
+          const tx = await doit(
+            false,
+            delta,
+            minCUsdAmountOut,
+            kCurPrice,
+            kCurContract,
+            cUsdContract,
+            relayerAddress,
+            proxyPoolContract,
+            vaultContract,
+            signer,
+          );
+
+          if (tx) {
+            await waitForTransaction(tx, "ceiling defense swap");
+            logMessage(
+              serviceName,
+              `Sold ${fromWei(delta, 18)} kCUR for at least ${fromWei(minCUsdAmountOut, 18)} cUSD, tx hash: ${tx.hash}`,
+            );
+          }
+        }
       }
     } else {
       logMessage(serviceName, `kCur is within range ${kCurPrice}: (${floor} to ${ceiling})`);
     }
+    if (!proposed) {
+      clearMultisigProposal(serviceName);
+    }
+    return true;
   } catch (ex) {
     serviceThrewException(serviceName, ex);
+    return false;
   }
 };
@@ -1,9 +1,15 @@
+import { getConfig, KCurPriceMode } from "../helpers/config-helper";
 import { fromWeiToNumber, getContract, ITransaction } from "../helpers/contracts-helper";
-import { logMessage, serviceThrewException } from "../helpers/errors-helper";
+import { logMessage, logWarning, serviceFailed, serviceThrewException } from "../helpers/errors-helper";
+import { setGauge } from "../helpers/metrics-helper";
+import { IPriceSample, median, timeWeightedAverage } from "../helpers/price-helper";
+import { recordInput } from "../helpers/report-helper";
 import { getOracleForToken, getReserveContract, updateOracle } from "../helpers/reserve-helper";
+import { getStoredJson, putStoredJson } from "../helpers/storage-helper";
+import { waitForTransaction } from "../helpers/tracker-helper";
+import { spotPrice } from "../helpers/weighted-math-helper";
 
-import { DefenderRelaySigner } from "defender-relay-client/lib/ethers/signer";
-import { BigNumber, BytesLike } from "ethers/lib/ethers";
+import { BigNumber, BytesLike, Contract, Signer } from "ethers/lib/ethers";
 
 /**
  * this is a made up struct just for explaining what is returned from Vault
@@ -15,8 +21,109 @@ interface IPoolTokensStruct {
 }
 
 const serviceName = "kCur Service";
+/**
+ * getKCurPrice runs as its own service
+ */
+const priceServiceName = "kCUR Price";
+
+const SAMPLES_STORAGE_KEY = "kCurPoolPriceSamples";
+
+interface IPoolPriceSample extends IPriceSample {
+  blockNumber: number;
+}
+
+/**
+ * @returns the kCur Pool spot price of kCUR in cUSD, without the swap fee, at the given block, or the latest block
+ * when not given
+ */
+const getPoolPrice = async (
+  vault: Contract,
+  poolId: BytesLike,
+  weights: Array<BigNumber>,
+  kCurIndex: number,
+  cUsdIndex: number,
+  blockTag?: number,
+): Promise<number> => {
+  const poolInfo: IPoolTokensStruct =
+    blockTag === undefined ? await vault.getPoolTokens(poolId) : await vault.getPoolTokens(poolId, { blockTag });
+
+  return fromWeiToNumber(
+    spotPrice(
+      { balance: poolInfo.balances[cUsdIndex], weight: weights[cUsdIndex] },
+      { balance: poolInfo.balances[kCurIndex], weight: weights[kCurIndex] },
+    ),
+    18,
+  );
+};
+
+/**
+ * Sample the current block and the configured number of past blocks.  Past blocks that can't be read
+ * (such as when the node doesn't keep historical state) are skipped.
+ */
+const samplePool = async (
+  signer: Signer,
+  getPrice: (blockTag: number) => Promise<number>,
+): Promise<Array<IPoolPriceSample>> => {
+  if (!signer.provider) {
+    throw new Error("signer has no provider");
+  }
+  const provider = signer.provider;
+  const { kCurSampleBlocks, kCurSampleBlockInterval } = getConfig();
+  const currentBlock = await provider.getBlock("latest");
+  const samples: Array<IPoolPriceSample> = [
+    {
+      blockNumber: currentBlock.number,
+      timestamp: currentBlock.timestamp,
+      price: await getPrice(currentBlock.number),
+    },
+  ];
+
+  for (let i = 1; i <= kCurSampleBlocks; i++) {
+    const blockNumber = currentBlock.number - i * kCurSampleBlockInterval;
+    try {
+      const block = await provider.getBlock(blockNumber);
+      samples.push({ blockNumber, timestamp: block.timestamp, price: await getPrice(blockNumber) });
+    } catch (ex) {
+      logWarning(serviceName, `could not sample the kCur Pool at block ${blockNumber}: ${(ex as Error).message}`);
+      break;
+    }
+  }
+  return samples;
+};
+
+/**
+ * Merge the new samples with those kept from past runs, drop the ones outside the window and save the rest.
+ */
+const updateStoredSamples = async (newSamples: Array<IPoolPriceSample>): Promise<Array<IPoolPriceSample>> => {
+  const storedSamples = (await getStoredJson<Array<IPoolPriceSample>>(SAMPLES_STORAGE_KEY)) ?? [];
+  const latestTimestamp = Math.max(...newSamples.map((sample) => sample.timestamp));
+  const windowSeconds = getConfig().kCurSampleWindowSeconds;
+
+  const samplesByBlock = new Map<number, IPoolPriceSample>();
+  for (const sample of [...storedSamples, ...newSamples]) {
+    if (latestTimestamp - sample.timestamp <= windowSeconds) {
+      samplesByBlock.set(sample.blockNumber, sample);
+    }
+  }
+  const samples = [...samplesByBlock.values()].sort((a, b) => a.blockNumber - b.blockNumber);
+
+  await putStoredJson(SAMPLES_STORAGE_KEY, samples);
 
-export const getKCurPrice = async (cUsdPrice: number, signer: DefenderRelaySigner): Promise<number | undefined> => {
+  return samples;
+};
+
+/**
+ * @param cUsdPrice the kCur Pool prices kCUR in cUSD, so this converts to $USD.
+ * We aren't assuming cUsd is 1-to-1 with fiat USD.
+ * @param priceMode
+ * @returns the $USD price of kCUR, undefined if it could not be obtained or, when not in "spot" mode,
+ * the spot price diverges too far from the twap/median price.
+ */
+export const getKCurPrice = async (
+  cUsdPrice: number,
+  priceMode: KCurPriceMode,
+  signer: Signer,
+): Promise<number | undefined> => {
   try {
     const vault = getContract("Vault", signer);
 
@@ -33,36 +140,57 @@ export const getKCurPrice = async (cUsdPrice: number, signer: DefenderRelaySigne
      */
     const weights: Array<BigNumber> = await kCurPool.getNormalizedWeights();
     const poolId: BytesLike = await kCurPool.getPoolId();
-    const poolInfo: IPoolTokensStruct = await vault.getPoolTokens(poolId);
 
-    const Bi = fromWeiToNumber(poolInfo.balances[cUsdIndex], 18); // cUsdBalance
-    const Bo = fromWeiToNumber(poolInfo.balances[kCurIndex], 18); // kCurBalance
-    const Wi = fromWeiToNumber(weights[cUsdIndex], 18); // cUsdWeight
-    const Wo = fromWeiToNumber(weights[kCurIndex], 18); // kCurWeight
-
-    /**
-     * see here: https://docs.balancer.fi/reference/math/weighted-math.html#spot-price
-     *
-     * multiple times cUsdPrice because the exchange rate is in terms of cUSD.  We aren't assuming
-     * cUsd is 1-to-1 with fiat USD.
-     */
-    // eslint-disable-next-line prettier/prettier
-  const spotExchangeRate = (Bi / Wi) / (Bo / Wo) * cUsdPrice;
-
-    logMessage(serviceName, `kCUR spot price: ${spotExchangeRate}`);
-
-    // const random = (min: number, max: number): number => Math.floor(Math.random() * (max - min)) + min;
-    // const fake = 0.54 + random(0, 100) / 5000;
-    // logMessage(serviceName, `fake kCUR spot price: ${fake}`);
-
-    return spotExchangeRate;
+    const getPrice = (blockTag?: number): Promise<number> =>
+      getPoolPrice(vault, poolId, weights, kCurIndex, cUsdIndex, blockTag);
+
+    if (priceMode === "spot") {
+      const spotExchangeRate = (await getPrice()) * cUsdPrice;
+      logMessage(serviceName, `kCUR spot price: ${spotExchangeRate}`);
+      recordInput(priceServiceName, "cUsdPrice", cUsdPrice);
+      recordInput(priceServiceName, "kCurSpotPrice", spotExchangeRate);
+      setGauge("kolektivo_kcur_spot_price_usd", spotExchangeRate);
+      setGauge("kolektivo_kcur_price_usd", spotExchangeRate);
+      return spotExchangeRate;
+    }
+
+    const samples = await updateStoredSamples(await samplePool(signer, getPrice));
+    const spotPrice = samples[samples.length - 1].price * cUsdPrice;
+    const averagePrice =
+      (priceMode === "twap" ? timeWeightedAverage(samples) : median(samples.map((sample) => sample.price))) * cUsdPrice;
+
+    logMessage(serviceName, `kCUR spot price: ${spotPrice}`);
+    logMessage(serviceName, `kCUR ${priceMode} price: ${averagePrice} (from ${samples.length} samples)`);
+    recordInput(priceServiceName, "cUsdPrice", cUsdPrice);
+    recordInput(priceServiceName, "kCurSpotPrice", spotPrice);
+    recordInput(priceServiceName, `kCur${priceMode === "twap" ? "Twap" : "Median"}Price`, averagePrice);
+    recordInput(priceServiceName, "kCurPriceSamples", samples.length);
+    setGauge("kolektivo_kcur_spot_price_usd", spotPrice);
+
+    const maxDivergence = getConfig().kCurMaxSpotDivergence;
+    const divergence = Math.abs(spotPrice - averagePrice) / averagePrice;
+    if (divergence > maxDivergence) {
+      serviceFailed(
+        priceServiceName,
+        `kCUR spot price (${spotPrice}) diverges from the ${priceMode} price (${averagePrice}) by ${
+          divergence * 100
+        }%, more than the allowed ${maxDivergence * 100}%, refusing to report`,
+      );
+      return undefined;
+    }
+
+    setGauge("kolektivo_kcur_price_usd", averagePrice);
+    return averagePrice;
   } catch (ex) {
-    serviceThrewException("getKCurPrice", ex);
+    serviceThrewException(priceServiceName, ex);
     return undefined;
   }
 };
 
-export const executeKCurService = async (kcurPrice: number, signer: DefenderRelaySigner): Promise<void> => {
+/**
+ * @returns false when the kCUR Oracle could not be brought up-to-date
+ */
+export const executeKCurService = async (kcurPrice: number, signer: Signer): Promise<boolean> => {
   logMessage(serviceName, "executing...");
 
   try {
@@ -71,14 +199,29 @@ export const executeKCurService = async (kcurPrice: number, signer: DefenderRela
     logMessage(serviceName, "Reserve address: ", reserveContract.address);
 
     const kCurOracleContract = await getOracleForToken(reserveContract, "CuracaoReserveToken", signer);
+    recordInput(serviceName, "kCurPrice", kcurPrice);
 
     logMessage(serviceName, "kCUR Oracle address: ", kCurOracleContract.address);
-    logMessage(serviceName, `Reporting ${kcurPrice} to kCUR Oracle`);
 
-    const tx: ITransaction = await updateOracle(kCurOracleContract, kcurPrice);
-    await tx.wait(); // await because other services depend on this being up-to-date
-    logMessage(serviceName, `Updated kCUR Oracle, tx hash: ${tx.hash}`);
+    const config = getConfig();
+    const tx: ITransaction | undefined = await updateOracle(
+      kCurOracleContract,
+      "kCUR Oracle",
+      kcurPrice,
+      {
+        deviationThreshold: config.kCurOracleDeviationThreshold,
+        heartbeatSeconds: config.kCurOracleHeartbeatSeconds,
+        expiryMarginSeconds: config.oracleExpiryMarginSeconds,
+      },
+      serviceName,
+    );
+    if (tx) {
+      await waitForTransaction(tx, "kCUR Oracle report"); // await because other services depend on this being up-to-date
+      logMessage(serviceName, `Updated kCUR Oracle, tx hash: ${tx.hash}`);
+    }
+    return true;
   } catch (ex) {
     serviceThrewException(serviceName, ex);
+    return false;
   }
 };
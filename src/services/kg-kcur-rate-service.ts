@@ -1,16 +1,25 @@
-import { KGUILDER_USDPRICE } from "../globals";
 import { getContractAddress } from "../helpers/abi-helper";
-import { getContract, ITransaction, toWei } from "../helpers/contracts-helper";
+import { getConfig } from "../helpers/config-helper";
+import { getContract, ITransaction } from "../helpers/contracts-helper";
 import { logMessage, serviceThrewException } from "../helpers/errors-helper";
+import { recordInput } from "../helpers/report-helper";
+import { reportToSortedOracles } from "../helpers/sorted-oracles-helper";
+import { waitForTransaction } from "../helpers/tracker-helper";
 
-import { DefenderRelaySigner } from "defender-relay-client/lib/ethers/signer";
-import { constants } from "ethers";
+import { Signer } from "ethers";
 
 const serviceName = "kG-kCur Rate Service";
 
+/**
+ * @param kCurPrice
+ * @param kGuilderUsdPrice the $USD price of kG, see kg-price-service
+ * @param signer
+ * @returns the kG/kCUR rate, undefined when the service failed
+ */
 export const executekGkCURService = async (
   kCurPrice: number,
-  signer: DefenderRelaySigner,
+  kGuilderUsdPrice: number,
+  signer: Signer,
 ): Promise<number | undefined> => {
   let kGkCurExchangeRate!: number;
 
@@ -22,9 +31,12 @@ export const executekGkCURService = async (
     }
     /**
      * An exchange rate: how many kG needed to purchase one kCUR.
-     * Value of kG is fixed to KGUILDER_USDPRICE.
+     * Value of kG follows its peg to the Guilder.
      */
-    kGkCurExchangeRate = 1 / (KGUILDER_USDPRICE / kCurPrice);
+    kGkCurExchangeRate = 1 / (kGuilderUsdPrice / kCurPrice);
+    recordInput(serviceName, "kCurPrice", kCurPrice);
+    recordInput(serviceName, "kGuilderUsdPrice", kGuilderUsdPrice);
+    recordInput(serviceName, "kGkCurRate", kGkCurExchangeRate);
 
     const kGTokenContractAddress = getContractAddress("KolektivoGuilder");
     logMessage(serviceName, "kGuilder address: ", kGTokenContractAddress);
@@ -32,17 +44,27 @@ export const executekGkCURService = async (
     const mentoOracleContract = getContract("SortedOracles", signer);
     logMessage(serviceName, "SortedOracles address: ", mentoOracleContract.address);
 
-    logMessage(serviceName, `Reporting ${kGkCurExchangeRate} to SortedOracles`);
     /**
      * the Relayer must be registered as an "oracle" with the SortedOracles contract
      */
-    const tx: ITransaction = await mentoOracleContract.report(
+    const config = getConfig();
+    const tx: ITransaction | undefined = await reportToSortedOracles(
+      mentoOracleContract,
+      "kG",
       kGTokenContractAddress,
-      toWei(kGkCurExchangeRate, 24),
-      constants.AddressZero,
-      constants.AddressZero,
+      kGkCurExchangeRate,
+      {
+        deviationThreshold: config.kGkCurRateDeviationThreshold,
+        heartbeatSeconds: config.kGkCurRateHeartbeatSeconds,
+        expiryMarginSeconds: config.oracleExpiryMarginSeconds,
+        maxJump: config.kGkCurRateMaxJump,
+      },
+      serviceName,
     );
-    logMessage(serviceName, `Updated Mento SortedOracles, tx hash: ${tx.hash}`);
+    if (tx) {
+      await waitForTransaction(tx, "SortedOracles report");
+      logMessage(serviceName, `Updated Mento SortedOracles, tx hash: ${tx.hash}`);
+    }
     return kGkCurExchangeRate;
   } catch (ex) {
     serviceThrewException(serviceName, ex);
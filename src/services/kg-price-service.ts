@@ -0,0 +1,88 @@
+import { getConfig } from "../helpers/config-helper";
+import { logMessage, logWarning } from "../helpers/errors-helper";
+import { createFxPriceSource } from "../helpers/fx-helper";
+import { setGauge } from "../helpers/metrics-helper";
+import { notify, resolveCondition } from "../helpers/notifications-helper";
+import { aggregatePrice } from "../helpers/price-helper";
+import { recordInput } from "../helpers/report-helper";
+import { getStoredJson, putStoredJson } from "../helpers/storage-helper";
+
+const serviceName = "kG Price";
+
+/**
+ * kG is pegged to the Netherlands Antillean Guilder
+ */
+const PEG_CURRENCY = "ANG";
+
+/**
+ * the last price the sources agreed on, reused by later runs
+ */
+const PRICE_STORAGE_KEY = "kGuilderPrice";
+
+const FALLBACK_CONDITION_KEY = "kGuilderPriceFallback";
+
+interface ICachedPrice {
+  /**
+   * seconds
+   */
+  timestamp: number;
+  price: number;
+}
+
+const useFallbackPrice = (reason: string): number => {
+  const fallbackPrice = getConfig().kGuilderUsdPrice;
+  logWarning(serviceName, `${reason}, using the fallback price: ${fallbackPrice}`);
+  recordInput(serviceName, "kGuilderPriceFrom", "fallback");
+  notify("kGuilderPriceFallback", { reason, fallbackPrice }, FALLBACK_CONDITION_KEY);
+  return fallbackPrice;
+};
+
+/**
+ * The $USD price of kG: the ANG/USD rate agreed on by the FX sources, reused for a while from the cache between
+ * runs, and only when within the sanity bounds.  Otherwise the configured fallback price, the peg of 1.79 ANG to USD.
+ *
+ * @returns the $USD price of kG, never fails
+ */
+export const getKGuilderPrice = async (): Promise<number> => {
+  const config = getConfig();
+  const now = Math.floor(Date.now() / 1000);
+  let price: number;
+
+  try {
+    const cached = await getStoredJson<ICachedPrice>(PRICE_STORAGE_KEY);
+    const withinBounds = (candidate: number): boolean =>
+      candidate >= config.kGuilderPriceMin && candidate <= config.kGuilderPriceMax;
+
+    if (cached && now - cached.timestamp < config.kGuilderPriceCacheSeconds && withinBounds(cached.price)) {
+      logMessage(serviceName, `using the cached price from ${now - cached.timestamp} seconds ago: ${cached.price}`);
+      recordInput(serviceName, "kGuilderPriceFrom", "cache");
+      price = cached.price;
+    } else {
+      const aggregatedPrice = await aggregatePrice(
+        config.kGuilderPriceSources.map((sourceName) => createFxPriceSource(sourceName, PEG_CURRENCY)),
+        { tolerance: config.kGuilderPriceTolerance, quorum: config.kGuilderPriceQuorum },
+        serviceName,
+      );
+      recordInput(serviceName, "kGuilderPriceSources", aggregatedPrice.results);
+
+      if (aggregatedPrice.price === undefined) {
+        price = useFallbackPrice("Not enough kG price sources agree");
+      } else if (!withinBounds(aggregatedPrice.price)) {
+        price = useFallbackPrice(
+          `The kG price from the sources (${aggregatedPrice.price}) is outside of ${config.kGuilderPriceMin} to ${config.kGuilderPriceMax}`,
+        );
+      } else {
+        price = aggregatedPrice.price;
+        recordInput(serviceName, "kGuilderPriceFrom", "sources");
+        resolveCondition(FALLBACK_CONDITION_KEY);
+        await putStoredJson<ICachedPrice>(PRICE_STORAGE_KEY, { timestamp: now, price });
+      }
+    }
+  } catch (ex) {
+    price = useFallbackPrice(`Could not get the kG price: ${(ex as Error).message}`);
+  }
+
+  recordInput(serviceName, "kGuilderUsdPrice", price);
+  setGauge("kolektivo_kg_price_usd", price);
+  return price;
+};
@@ -1,18 +1,54 @@
-import { KGUILDER_USDPRICE } from "../globals";
-import { fromWei, fromWeiToNumber, getContract, ITransaction, toWei } from "../helpers/contracts-helper";
+import { getConfig } from "../helpers/config-helper";
+import { fromWei, getContract, ITransaction, toWei } from "../helpers/contracts-helper";
 import { logMessage, serviceThrewException } from "../helpers/errors-helper";
-import { IErc20Token } from "../helpers/tokens-helper";
+import { setGauge } from "../helpers/metrics-helper";
+import { clearMultisigProposal, proposeToMultisig } from "../helpers/multisig-helper";
+import { computeMentoDelta, computeMentoRebalance } from "../helpers/policy-helper";
+import { recordInput } from "../helpers/report-helper";
+import { getStoredJson, putStoredJson } from "../helpers/storage-helper";
+import { waitForTransaction } from "../helpers/tracker-helper";
+import { sendTransaction } from "../helpers/transactions-helper";
 
-import { DefenderRelaySigner } from "defender-relay-client/lib/ethers/signer";
-import { FixedNumber } from "ethers";
+import { BigNumber, Signer } from "ethers";
 
 const serviceName = "Mento Service";
 
+/**
+ * the transfers of the past 24 hours, for the per-day maximum
+ */
+const TRANSFERS_STORAGE_KEY = "mentoTransfers";
+
+const DAY_SECONDS = 60 * 60 * 24;
+
+interface IMentoTransfer {
+  /**
+   * seconds
+   */
+  timestamp: number;
+  /**
+   * wei
+   */
+  kCurAmount: string;
+}
+
+/**
+ * @returns the transfers kept from past runs, less those older than 24 hours
+ */
+const getRecentTransfers = async (now: number): Promise<Array<IMentoTransfer>> => {
+  const transfers = (await getStoredJson<Array<IMentoTransfer>>(TRANSFERS_STORAGE_KEY)) ?? [];
+  return transfers.filter((transfer) => now - transfer.timestamp < DAY_SECONDS);
+};
+
+const saveTransfer = (recentTransfers: Array<IMentoTransfer>, transfer: IMentoTransfer): Promise<void> => {
+  return putStoredJson(TRANSFERS_STORAGE_KEY, [...recentTransfers, transfer]);
+};
+
 /**
  * What we are doing here:
  *
- * The USD value of kG is hardcoded (same as the 1.79 ratio of Guilder to USD) in the StablePool and by how we compute
- * the kCUR/kG exchange rate in the service that reports the rate to the Mento SortedOracles (kg-kcur-rate-service).
+ * The USD value of kG follows its peg to the Guilder (1.79 Guilders to USD), see kg-price-service, both here and in how
+ * we compute the kCUR/kG exchange rate in the service that reports the rate to the Mento SortedOracles
+ * (kg-kcur-rate-service).
  *
  * This Mento Arbitrage service is meant to maintain the level of backing of kCUR to kG,
  * based on the current price of kCUR (which comes from the WeightedPool).
@@ -21,65 +57,129 @@ const serviceName = "Mento Service";
  *
  * The price of kCUR comes from the WeightedPool, the supply comes from kCUR.balanceOf(MentoReserve)
  *
- * The price of kG is, again, based on the 1.79, and its supply comes from kG.totalSupply
+ * The price of kG is, again, based on the peg, and its supply comes from kG.totalSupply
  *
  * We can correct any inequality by raising or lowering the supply of kCUR in the MentoReserve.
  * Increase kCUR by sending to the MentoReserve, decrease using MentoReserve.transferExchangeGold.
  *
  * Since there is frequent fluctuation in the USD value of kCUR and the totalSupply of kCUR,
- * we find that this service must frequently update the balance.
+ * we find that this service must frequently update the balance.  So that it does not send a transfer for every
+ * small fluctuation, nothing is moved while the values are within the tolerance band, and no more than the per-run
+ * and per-day maximums are moved, moving part of the way toward balance when more is needed (see computeMentoRebalance).
+ * When the kCUR needed, before the maximums, is more than the multisig limit, all of it is proposed to the
+ * KolektivoMultiSig rather than moved.
+ *
+ * @returns false when the service failed
  */
 export const executeMentoService = async (
   kCurPrice: number,
+  kGuilderUsdPrice: number,
   relayerAddress: string,
-  signer: DefenderRelaySigner,
-): Promise<void> => {
+  signer: Signer,
+): Promise<boolean> => {
   logMessage(serviceName, "executing...");
 
   try {
-    const kCurContract = getContract("CuracaoReserveToken", signer) as unknown as IErc20Token;
-    const kGContract = getContract("KolektivoGuilder", signer) as unknown as IErc20Token;
+    const kCurContract = getContract("CuracaoReserveToken", signer);
+    const kGContract = getContract("KolektivoGuilder", signer);
     const mentoReserveContract = getContract("MentoReserve", signer);
     logMessage(serviceName, `MentoReserve address is: ${mentoReserveContract.address}`);
 
     const kCurTotalSupply = await kCurContract.balanceOf(mentoReserveContract.address);
 
-    const kCurTotalValue = fromWeiToNumber(
-      FixedNumber.fromValue(kCurTotalSupply)
-        .mulUnsafe(FixedNumber.fromString(kCurPrice.toString()))
-        .round(0)
-        .toFormat("fixed32x0")
-        .toString(),
-      18,
-    );
-
     const kGTotalSupply = await kGContract.totalSupply();
 
-    /**
-     * Using the fixed price of kG to help maintain that fixed
-     * equivalence between kGUilder and Guilder
-     */
-    const kGTotalValue = fromWeiToNumber(
-      FixedNumber.fromValue(kGTotalSupply)
-        .mulUnsafe(FixedNumber.fromString(KGUILDER_USDPRICE.toString()))
-        .round(0)
-        .toFormat("fixed32x0")
-        .toString(),
-      18,
+    const now = Math.floor(Date.now() / 1000);
+    const recentTransfers = await getRecentTransfers(now);
+    const transferredToday = recentTransfers.reduce(
+      (total, transfer) => total.add(transfer.kCurAmount),
+      BigNumber.from(0),
     );
 
+    const config = getConfig();
+    const rebalance = computeMentoRebalance(
+      computeMentoDelta(kCurTotalSupply, kGTotalSupply, kCurPrice, kGuilderUsdPrice),
+      config,
+      transferredToday,
+    );
+    const { kCurTotalValue, kGTotalValue, kCurAmount: deltaKCur, toMentoReserve } = rebalance;
+
     logMessage(serviceName, `kCUR total supply: ${fromWei(kCurTotalSupply, 18)}`);
     logMessage(serviceName, `kG total supply: ${fromWei(kGTotalSupply, 18)}`);
 
     logMessage(serviceName, `kCUR total value: ${kCurTotalValue.toString()}`);
     logMessage(serviceName, `kG total value: ${kGTotalValue.toString()}`);
 
-    if (kCurTotalValue < kGTotalValue) {
+    recordInput(serviceName, "kCurPrice", kCurPrice);
+    recordInput(serviceName, "kGuilderUsdPrice", kGuilderUsdPrice);
+    recordInput(serviceName, "kCurMentoReserveBalance", fromWei(kCurTotalSupply, 18));
+    recordInput(serviceName, "kGTotalSupply", fromWei(kGTotalSupply, 18));
+    recordInput(serviceName, "kCurTotalValue", kCurTotalValue);
+    recordInput(serviceName, "kGTotalValue", kGTotalValue);
+    recordInput(serviceName, "imbalance", fromWei(rebalance.imbalance, 18));
+    recordInput(serviceName, "imbalanceFraction", rebalance.imbalanceFraction);
+    recordInput(serviceName, "kCurTransferredToday", fromWei(transferredToday, 18));
+    recordInput(serviceName, "decision", rebalance.decision);
+    recordInput(serviceName, "targetKCurAmount", fromWei(rebalance.targetKCurAmount, 18));
+    recordInput(serviceName, "kCurAmount", fromWei(deltaKCur, 18));
+    setGauge("kolektivo_mento_kcur_total_value_usd", kCurTotalValue);
+    setGauge("kolektivo_mento_kg_total_value_usd", kGTotalValue);
+
+    logMessage(
+      serviceName,
+      `imbalance: ${fromWei(rebalance.imbalance, 18)} USD (${rebalance.imbalanceFraction * 100}%), decision: ${
+        rebalance.decision
+      }`,
+    );
+
+    /**
+     * decided on all of the kCUR needed, before the per-run and per-day maximums, so that a large imbalance goes to
+     * the KolektivoMultiSig rather than being moved by the Relayer a maximum at a time
+     */
+    const needsMultisig =
+      rebalance.decision !== "withinBand" &&
+      rebalance.targetKCurAmount.gt(toWei(config.multisigMentoTransferLimit, 18));
+    if (!needsMultisig) {
+      clearMultisigProposal(serviceName);
+    }
+
+    if (needsMultisig) {
+      const multisigKCur = rebalance.targetKCurAmount;
+      /**
+       * too much for the Relayer to move on its own, the KolektivoMultiSig moves all of it instead
+       */
+      proposeToMultisig(
+        serviceName,
+        [
+          toMentoReserve
+            ? {
+                contractName: "CuracaoReserveToken",
+                method: "transfer",
+                args: [mentoReserveContract.address, multisigKCur],
+              }
+            : { contractName: "MentoReserve", method: "transferExchangeGold", args: [relayerAddress, multisigKCur] },
+        ],
+        `${toMentoReserve ? "send" : "take"} ${fromWei(multisigKCur, 18)} kCUR ${
+          toMentoReserve ? "to" : "from"
+        } the MentoReserve, where the kCUR total value is ${kCurTotalValue} and the kG total value is ${kGTotalValue}, more than the ${
+          config.multisigMentoTransferLimit
+        } kCUR the Relayer may move on its own`,
+      );
+    } else if (deltaKCur.isZero()) {
+      logMessage(
+        serviceName,
+        rebalance.decision === "withinBand"
+          ? `No changes required, the numbers are within the tolerance band`
+          : `No changes made, the maximums allow no more kCUR to be moved (${fromWei(
+              transferredToday,
+              18,
+            )} kCUR today)`,
+      );
+    } else if (toMentoReserve) {
       /**
        * then need to increase the balance of kCUR in the MentoReserve.
        */
-      const deltaKCur = toWei((kGTotalValue - kCurTotalValue) / kCurPrice, 18);
-      const relayerBalance = await kCurContract.balanceOf(relayerAddress);
+      const relayerBalance: BigNumber = await kCurContract.balanceOf(relayerAddress);
 
       if (relayerBalance.lt(deltaKCur)) {
         throw new Error(
@@ -90,13 +190,24 @@ export const executeMentoService = async (
         );
       }
 
-      const tx: ITransaction = await kCurContract.transfer(mentoReserveContract.address, deltaKCur);
-      logMessage(serviceName, `Transferred ${fromWei(deltaKCur, 18)} kCur to the MentoReserve, tx hash: ${tx.hash}`);
-    } else if (kGTotalValue < kCurTotalValue) {
+      const tx: ITransaction | undefined = await sendTransaction(
+        serviceName,
+        kCurContract,
+        "CuracaoReserveToken",
+        "transfer",
+        [mentoReserveContract.address, deltaKCur],
+        `kCUR total value (${kCurTotalValue}) in the MentoReserve is less than the kG total value (${kGTotalValue}), ${rebalance.decision}`,
+      );
+      if (tx) {
+        await saveTransfer(recentTransfers, { timestamp: now, kCurAmount: deltaKCur.toString() });
+        // await so the services sending after this one see the Relayer's new balances
+        await waitForTransaction(tx, "kCUR transfer to the MentoReserve");
+        logMessage(serviceName, `Transferred ${fromWei(deltaKCur, 18)} kCur to the MentoReserve, tx hash: ${tx.hash}`);
+      }
+    } else {
       /**
        * then need to decrease the balance of kCUR in the MentoReserve.
        */
-      const deltaKCur = toWei((kCurTotalValue - kGTotalValue) / kCurPrice, 18);
       const mentoExchangeAvailable = await mentoReserveContract.getUnfrozenBalance();
 
       if (mentoExchangeAvailable.lt(deltaKCur)) {
@@ -108,12 +219,26 @@ export const executeMentoService = async (
         );
       }
 
-      const tx: ITransaction = await mentoReserveContract.transferExchangeGold(relayerAddress, deltaKCur);
-      logMessage(serviceName, `Transferred ${fromWei(deltaKCur, 18)} kCur from the MentoReserve, tx hash: ${tx.hash}`);
-    } else {
-      logMessage(serviceName, `No changes required, the numbers are balanced`);
+      const tx: ITransaction | undefined = await sendTransaction(
+        serviceName,
+        mentoReserveContract,
+        "MentoReserve",
+        "transferExchangeGold",
+        [relayerAddress, deltaKCur],
+        `kCUR total value (${kCurTotalValue}) in the MentoReserve is greater than the kG total value (${kGTotalValue}), ${rebalance.decision}`,
+      );
+      if (tx) {
+        await saveTransfer(recentTransfers, { timestamp: now, kCurAmount: deltaKCur.toString() });
+        await waitForTransaction(tx, "kCUR transfer from the MentoReserve");
+        logMessage(
+          serviceName,
+          `Transferred ${fromWei(deltaKCur, 18)} kCur from the MentoReserve, tx hash: ${tx.hash}`,
+        );
+      }
     }
+    return true;
   } catch (ex) {
     serviceThrewException(serviceName, ex);
+    return false;
   }
 };
@@ -0,0 +1,154 @@
+import { getConfig } from "../helpers/config-helper";
+import { IService, IServiceContext, IServiceValues } from "../helpers/services-helper";
+
+import { executeCusdService, getCUsdPriceSources } from "./cusd-service";
+import { executeInventoryService } from "./inventory-service";
+import { executeFloorAndCeilingService } from "./kcur-floor-and-ceiling-service";
+import { executeKCurService, getKCurPrice } from "./kcur-service";
+import { executekGkCURService } from "./kg-kcur-rate-service";
+import { getKGuilderPrice } from "./kg-price-service";
+import { executeMentoService } from "./mento-arbitrage-service";
+
+/**
+ * Every service the handler runs.  The order here doesn't matter, the services run
+ * as soon as their inputs are available.
+ */
+export const services: Array<IService> = [
+  {
+    id: "cusd",
+    name: "cUSD Service",
+    inputs: [],
+    outputs: ["cUsdPrice"],
+    sendsTransactions: true,
+    /**
+     * without a price the sources agree on, passes on the static price without reporting to the cUSD Oracle
+     */
+    execute: async (context: IServiceContext): Promise<Partial<IServiceValues> | undefined> => {
+      const cUsdPrice = await executeCusdService(
+        context.cUsdPriceSources ?? getCUsdPriceSources(context.coinGeckoApiKey),
+        getConfig().cUsdStaticPrice,
+        context.signer,
+      );
+      return cUsdPrice === undefined ? undefined : { cUsdPrice };
+    },
+  },
+  {
+    id: "kg-price",
+    name: "kG Price",
+    inputs: [],
+    outputs: ["kGuilderUsdPrice"],
+    sendsTransactions: false,
+    /**
+     * falls back to the configured price, so never fails the other services
+     */
+    execute: async (): Promise<Partial<IServiceValues>> => {
+      return { kGuilderUsdPrice: await getKGuilderPrice() };
+    },
+  },
+  {
+    id: "kcur-price",
+    name: "kCUR Price",
+    inputs: ["cUsdPrice"],
+    outputs: ["kCurPrice"],
+    sendsTransactions: false,
+    execute: async (context: IServiceContext): Promise<Partial<IServiceValues> | undefined> => {
+      const kCurPrice = await getKCurPrice(
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        context.values.cUsdPrice!,
+        getConfig().kCurPriceMode,
+        context.signer,
+      );
+      return kCurPrice === undefined ? undefined : { kCurPrice };
+    },
+  },
+  {
+    id: "kcur-oracle",
+    name: "kCur Service",
+    inputs: ["kCurPrice"],
+    outputs: ["kCurOracleUpdated"],
+    sendsTransactions: true,
+    execute: async (context: IServiceContext): Promise<Partial<IServiceValues> | undefined> => {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const updated = await executeKCurService(context.values.kCurPrice!, context.signer);
+      return updated ? { kCurOracleUpdated: true } : undefined;
+    },
+  },
+  {
+    id: "kg-kcur-rate",
+    name: "kG-kCur Rate Service",
+    inputs: ["kCurPrice", "kGuilderUsdPrice"],
+    outputs: ["kGkCurRate"],
+    sendsTransactions: true,
+    execute: async (context: IServiceContext): Promise<Partial<IServiceValues> | undefined> => {
+      const kGkCurRate = await executekGkCURService(
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        context.values.kCurPrice!,
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        context.values.kGuilderUsdPrice!,
+        context.signer,
+      );
+      return kGkCurRate === undefined ? undefined : { kGkCurRate };
+    },
+  },
+  {
+    id: "inventory",
+    name: "Inventory Service",
+    inputs: ["cUsdPrice", "kCurPrice", "kGuilderUsdPrice"],
+    outputs: ["relayerInventoryChecked"],
+    sendsTransactions: true,
+    execute: async (context: IServiceContext): Promise<Partial<IServiceValues> | undefined> => {
+      const succeeded = await executeInventoryService(
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        context.values.cUsdPrice!,
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        context.values.kCurPrice!,
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        context.values.kGuilderUsdPrice!,
+        context.relayerAddress,
+        context.signer,
+      );
+      return succeeded ? { relayerInventoryChecked: true } : undefined;
+    },
+  },
+  {
+    id: "mento",
+    name: "Mento Service",
+    /**
+     * sends kCUR from the Relayer's inventory
+     */
+    inputs: ["kCurPrice", "kGuilderUsdPrice", "relayerInventoryChecked"],
+    outputs: [],
+    sendsTransactions: true,
+    execute: async (context: IServiceContext): Promise<Partial<IServiceValues> | undefined> => {
+      const succeeded = await executeMentoService(
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        context.values.kCurPrice!,
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        context.values.kGuilderUsdPrice!,
+        context.relayerAddress,
+        context.signer,
+      );
+      return succeeded ? {} : undefined;
+    },
+  },
+  {
+    id: "floor-ceiling",
+    name: "FloorCeiling Service",
+    /**
+     * relies on Reserve.reserveStatus being up-to-date with the price reported to the kCUR Oracle,
+     * and swaps from the Relayer's inventory
+     */
+    inputs: ["kCurPrice", "kCurOracleUpdated", "relayerInventoryChecked"],
+    outputs: [],
+    sendsTransactions: true,
+    execute: async (context: IServiceContext): Promise<Partial<IServiceValues> | undefined> => {
+      const succeeded = await executeFloorAndCeilingService(
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        context.values.kCurPrice!,
+        context.relayerAddress,
+        context.signer,
+      );
+      return succeeded ? {} : undefined;
+    },
+  },
+];
@@ -0,0 +1,25 @@
+import { createSimulator } from "../src/helpers/simulator-helper";
+
+import { createEvent, initialState, runHandler } from "./fixtures";
+
+import assert from "assert";
+
+describe("cUSD Service", () => {
+  it("passes on the static price when the market sources don't reach a quorum", async () => {
+    const simulator = createSimulator("celo", { ...initialState, relayerKGuilderBalance: 100 });
+
+    /**
+     * the simulator is the only market source, short of the default quorum of two
+     */
+    const report = await runHandler(createEvent({ CusdStaticPrice: "0.999" }), simulator);
+
+    const cUsdReport = report.services.find((service) => service.name === "cUSD Service");
+    assert.strictEqual(cUsdReport?.status, "succeeded");
+    assert.strictEqual(cUsdReport.inputs.cUsdPriceFrom, "static");
+    assert.strictEqual(cUsdReport.inputs.cUsdPrice, 0.999);
+
+    const kCurPriceReport = report.services.find((service) => service.name === "kCUR Price");
+    assert.strictEqual(kCurPriceReport?.status, "succeeded");
+    assert.strictEqual(kCurPriceReport.inputs.cUsdPrice, 0.999);
+  });
+});
@@ -0,0 +1,30 @@
+import { IAutoRelayHandler } from "../src/helpers/abi-helper";
+import { IRunReport } from "../src/helpers/report-helper";
+import { ISimulator, ISimulatorState } from "../src/helpers/simulator-helper";
+import { handler } from "../src/index";
+
+/**
+ * the initial state of the backtest example in the README
+ */
+export const initialState: ISimulatorState = {
+  pool: { kCurBalance: 100000, cUsdBalance: 100000, kCurWeight: 0.5, cUsdWeight: 0.5, swapFee: 0.003 },
+  reserveValue: 500000,
+  kCurSupply: 1000000,
+  cUsdPrice: 1,
+  kCurMentoBalance: 55866,
+  kGTotalSupply: 100000,
+  relayerKCurBalance: 100000,
+  relayerCUsdBalance: 100000,
+};
+
+/**
+ * @param secrets besides the network and no kG FX sources, so the tests stay off the network and kG is valued at
+ * the fallback price
+ */
+export const createEvent = (secrets: Record<string, string> = {}): IAutoRelayHandler => {
+  return { apiKey: "", apiSecret: "", secrets: { Network: "celo", KGuilderPriceSources: "", ...secrets } };
+};
+
+export const runHandler = async (event: IAutoRelayHandler, simulator: ISimulator): Promise<IRunReport> => {
+  return JSON.parse(await handler(event, simulator)) as IRunReport;
+};
@@ -0,0 +1,48 @@
+import { createSimulator, ISimulator } from "../src/helpers/simulator-helper";
+
+import { createEvent, initialState, runHandler } from "./fixtures";
+
+import assert from "assert";
+
+const event = createEvent({ CusdPriceQuorum: "1" });
+
+/**
+ * Run once to report the rate from the initial state, then again once the market has moved the kCUR price
+ *
+ * @returns how the service did on the second run, and how many rates it reported
+ */
+const runAfterTrade = async (
+  simulator: ISimulator,
+  kCurIn: number,
+): Promise<{ status: string | undefined; reports: number }> => {
+  await runHandler(event, simulator);
+  const sent = simulator.transactions.length;
+
+  simulator.trade({ kCurIn });
+  simulator.advance(60 * 60 * 2); // past the twap window
+  const report = await runHandler(event, simulator);
+
+  return {
+    status: report.services.find((service) => service.name === "kG-kCur Rate Service")?.status,
+    reports: simulator.transactions
+      .slice(sent)
+      .filter((transaction) => transaction.contractName === "SortedOracles" && transaction.method === "report").length,
+  };
+};
+
+describe("kG-kCur Rate Service", () => {
+  /**
+   * the Relayer is the only SortedOracles oracle for kG in the simulator
+   */
+  describe("when the Relayer is the only oracle", () => {
+    it("refuses a rate more than the maximum jump from its own last report", async () => {
+      const simulator = createSimulator("celo", { ...initialState, relayerKGuilderBalance: 100 });
+      assert.deepStrictEqual(await runAfterTrade(simulator, 20000), { status: "failed", reports: 0 });
+    });
+
+    it("reports a rate within the maximum jump of its own last report", async () => {
+      const simulator = createSimulator("celo", { ...initialState, relayerKGuilderBalance: 100 });
+      assert.deepStrictEqual(await runAfterTrade(simulator, 2000), { status: "succeeded", reports: 1 });
+    });
+  });
+});
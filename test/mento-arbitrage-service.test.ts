@@ -0,0 +1,42 @@
+import { getContractAddress } from "../src/helpers/abi-helper";
+import { createSimulator } from "../src/helpers/simulator-helper";
+
+import { createEvent, initialState, runHandler } from "./fixtures";
+
+import assert from "assert";
+import { utils } from "ethers";
+
+describe("Mento Service", () => {
+  it("proposes a transfer above the multisig limit to the KolektivoMultiSig rather than making it", async () => {
+    /**
+     * about 50000 kCUR short of the kG total value, more than the 20000 kCUR multisig limit
+     */
+    const simulator = createSimulator("celo", { ...initialState, kCurMentoBalance: 5866, relayerKGuilderBalance: 100 });
+
+    const report = await runHandler(createEvent({ CusdPriceQuorum: "1" }), simulator);
+
+    const mentoReport = report.services.find((service) => service.name === "Mento Service");
+    assert.strictEqual(mentoReport?.status, "succeeded");
+
+    const proposal = report.multisigProposals?.find((candidate) => candidate.serviceName === "Mento Service");
+    assert.ok(proposal, "no Mento Service proposal");
+    assert.strictEqual(proposal.calls.length, 1);
+    const [call] = proposal.calls;
+    assert.strictEqual(call.contractName, "CuracaoReserveToken");
+    assert.strictEqual(call.method, "transfer");
+    assert.strictEqual(String(call.args[0]).toLowerCase(), getContractAddress("MentoReserve").toLowerCase());
+    /**
+     * all of the kCUR needed, not the per-run maximum
+     */
+    assert.ok(Number(utils.formatEther(String(call.args[1]))) > 49000);
+
+    const mentoReserve = getContractAddress("MentoReserve").toLowerCase();
+    const directTransfers = simulator.transactions.filter(
+      (transaction) =>
+        transaction.to.toLowerCase() === mentoReserve ||
+        (transaction.method === "transfer" && String(transaction.args[0]).toLowerCase() === mentoReserve),
+    );
+    assert.deepStrictEqual(directTransfers, []);
+    assert.strictEqual(simulator.balanceOf("CuracaoReserveToken", mentoReserve), 5866);
+  });
+});
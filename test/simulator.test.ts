@@ -0,0 +1,41 @@
+import { createSimulator } from "../src/helpers/simulator-helper";
+
+import { createEvent, initialState, runHandler } from "./fixtures";
+
+import assert from "assert";
+
+describe("Simulator", () => {
+  it("runs the README example", async () => {
+    const simulator = createSimulator("celo", { ...initialState, relayerKGuilderBalance: 100 });
+    // the simulator is the only cUSD market price source
+    const event = createEvent({ CusdPriceQuorum: "1" });
+
+    const report = await runHandler(event, simulator);
+    assert.strictEqual(report.status, "succeeded");
+    for (const service of report.services.filter((candidate) => candidate.status)) {
+      assert.strictEqual(service.status, "succeeded", `${service.name}: ${service.reason ?? ""}`);
+    }
+    const kCurPriceReport = report.services.find((service) => service.name === "kCUR Price");
+    /**
+     * the current block and the 5 past blocks of the twap window
+     */
+    assert.strictEqual(kCurPriceReport?.inputs.kCurPriceSamples, 6);
+
+    simulator.trade({ kCurIn: 20000 }); // the market sells kCUR
+    simulator.advance(60 * 60 * 2); // past the twap window, so the twap price has caught up with the trade
+    const defended = await runHandler(event, simulator); // defends the floor, and refuses to move the kG/kCUR rate 30% at once
+    for (const service of defended.services.filter((candidate) => candidate.status)) {
+      assert.strictEqual(
+        service.status,
+        service.name === "kG-kCur Rate Service" ? "failed" : "succeeded",
+        `${service.name}: ${service.reason ?? ""}`,
+      );
+    }
+    assert.ok(
+      simulator.transactions.some(
+        (transaction) => transaction.contractName === "Vault" && transaction.method === "batchSwap",
+      ),
+      "the floor was not defended",
+    );
+  });
+});